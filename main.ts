@@ -1,17 +1,39 @@
 import { Plugin, WorkspaceLeaf, TFile, debounce } from 'obsidian';
 import { SupergraphView, VIEW_TYPE_SUPERGRAPH } from './src/SupergraphView';
-import { SupergraphSettings, DEFAULT_SETTINGS } from './src/settings';
+import { SupergraphSettings } from './src/settings';
 import { SupergraphSettingTab } from './src/SupergraphSettingTab';
+import { Board, FileChange } from './src/types';
+import { createBoard, duplicateBoard } from './src/boards';
+import { addRecentQuery, upsertSavedQuery } from './src/savedQueries';
+import { DataStore } from './src/DataStore';
+import { DATA_VERSION } from './src/migrations';
+import { DEFAULT_LOCAL_GRAPH } from './src/localGraph';
+import { BoardNameModal } from './src/BoardNameModal';
+import { BoardSuggestModal } from './src/BoardSuggestModal';
 
 export default class SupergraphPlugin extends Plugin {
 	settings: SupergraphSettings;
-	private refreshAllViewsDebounced: () => void;
+	boards: Board[] = [];
+	// Board opened by new views; follows the most recently used board
+	lastBoardId = '';
+	private store: DataStore;
+	private pendingFileChanges: FileChange[] = [];
+	private flushFileChangesDebounced: () => void;
+	// Name each saved query's command was last registered under, by query id
+	private savedQueryCommandNames = new Map<string, string>();
 
 	async onload() {
+		// All writes from the plugin and its views go through this store
+		this.store = new DataStore(this, () => ({
+			version: DATA_VERSION,
+			settings: this.settings,
+			boards: this.boards,
+			lastBoardId: this.lastBoardId
+		}));
 		await this.loadSettings();
 
-		// Debounce view refreshes to avoid excessive updates on rapid file changes
-		this.refreshAllViewsDebounced = debounce(() => this.refreshAllViews(), 300, true);
+		// Batch file changes so rapid edits are applied to views together
+		this.flushFileChangesDebounced = debounce(() => this.flushFileChanges(), 300, true);
 
 		// Register the custom view
 		this.registerView(
@@ -19,6 +41,12 @@ export default class SupergraphPlugin extends Plugin {
 			(leaf) => new SupergraphView(leaf, this)
 		);
 
+		// Page previews when hovering cards, configurable under Page preview
+		this.registerHoverLinkSource(VIEW_TYPE_SUPERGRAPH, {
+			display: 'Supergraph',
+			defaultMod: true
+		});
+
 		// Add ribbon icon
 		this.addRibbonIcon('git-fork', 'Open Supergraph', () => {
 			this.activateView();
@@ -33,22 +61,43 @@ export default class SupergraphPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'open-local-supergraph',
+			name: 'Open local Supergraph',
+			callback: () => {
+				this.activateLocalView();
+			}
+		});
+
+		this.addCommand({
+			id: 'find-path',
+			name: 'Find path between notes',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+				if (!view) return false;
+				if (!checking) view.startPathMode();
+				return true;
+			}
+		});
+
+		this.addBoardCommands();
+		this.registerSavedQueryCommands();
+
 		// Add settings tab
 		this.addSettingTab(new SupergraphSettingTab(this.app, this));
 
-		// Watch for file changes to update the graph (debounced to handle rapid changes)
+		// Watch for file changes to update the graph incrementally (batched to handle rapid changes).
+		// Edits are picked up from the metadata cache so links are already re-indexed.
 		this.registerEvent(
-			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile) {
-					this.refreshAllViewsDebounced();
-				}
+			this.app.metadataCache.on('changed', (file) => {
+				this.queueFileChange({ type: 'modify', file });
 			})
 		);
 
 		this.registerEvent(
 			this.app.vault.on('create', (file) => {
 				if (file instanceof TFile) {
-					this.refreshAllViewsDebounced();
+					this.queueFileChange({ type: 'create', file });
 				}
 			})
 		);
@@ -56,7 +105,7 @@ export default class SupergraphPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on('delete', (file) => {
 				if (file instanceof TFile) {
-					this.refreshAllViewsDebounced();
+					this.queueFileChange({ type: 'delete', file });
 				}
 			})
 		);
@@ -64,44 +113,278 @@ export default class SupergraphPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on('rename', (file, oldPath) => {
 				if (file instanceof TFile) {
-					this.refreshAllViewsDebounced();
+					this.queueFileChange({ type: 'rename', file, oldPath });
 				}
 			})
 		);
 	}
 
+	private addBoardCommands() {
+		this.addCommand({
+			id: 'create-board',
+			name: 'Create board',
+			callback: () => {
+				new BoardNameModal(this.app, 'Create board', 'New board', async (name) => {
+					const board = createBoard(name, this.settings.fileFilter);
+					this.boards.push(board);
+					await this.saveBoards();
+					const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+					if (view) {
+						await view.setBoard(board.id);
+					} else {
+						await this.activateView(board.id);
+					}
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'duplicate-board',
+			name: 'Duplicate current board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+				const board = view && this.getBoard(view.getBoardId());
+				if (!view || !board) return false;
+				if (!checking) {
+					new BoardNameModal(this.app, 'Duplicate board', `${board.name} copy`, async (name) => {
+						// Capture the current arrangement before copying it
+						await view.saveGraphState();
+						const copy = duplicateBoard(board, name);
+						this.boards.push(copy);
+						await this.saveBoards();
+						await view.setBoard(copy.id);
+					}).open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'rename-board',
+			name: 'Rename current board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+				const board = view && this.getBoard(view.getBoardId());
+				if (!view || !board) return false;
+				if (!checking) {
+					new BoardNameModal(this.app, 'Rename board', board.name, async (name) => {
+						board.name = name;
+						await this.saveBoards();
+						this.getSupergraphViews().forEach(v => v.onBoardsChanged());
+					}).open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'switch-board',
+			name: 'Switch board',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+				if (!view) return false;
+				if (!checking) {
+					new BoardSuggestModal(this.app, this.boards, 'Choose a board to show', async (board) => {
+						await view.setBoard(board.id);
+					}).open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'delete-board',
+			name: 'Delete board',
+			checkCallback: (checking) => {
+				// There must always be at least one board to fall back to
+				if (this.boards.length <= 1) return false;
+				if (!checking) {
+					new BoardSuggestModal(this.app, this.boards, 'Choose a board to delete', (board) => {
+						this.deleteBoard(board.id);
+					}).open();
+				}
+				return true;
+			}
+		});
+	}
+
+	/**
+	 * Register one "Apply filter <name>" command per saved query.
+	 * Commands are keyed by the query's id so hotkeys survive renames, and
+	 * look the query up when run, so removed queries simply stop showing.
+	 * Only new or renamed queries are (re)registered.
+	 */
+	private registerSavedQueryCommands() {
+		for (const saved of this.settings.savedQueries) {
+			if (!saved.name || this.savedQueryCommandNames.get(saved.id) === saved.name) {
+				continue;
+			}
+			this.savedQueryCommandNames.set(saved.id, saved.name);
+			const queryId = saved.id;
+			this.addCommand({
+				id: `apply-filter-${queryId}`,
+				name: `Apply filter ${saved.name}`,
+				checkCallback: (checking) => {
+					const query = this.settings.savedQueries.find(q => q.id === queryId);
+					const view = this.app.workspace.getActiveViewOfType(SupergraphView);
+					if (!query?.name || !view) return false;
+					if (!checking) {
+						view.applyQuery(query.query);
+					}
+					return true;
+				}
+			});
+		}
+	}
+
+	/**
+	 * Save `query` under `name`, overwriting a saved query with the same name.
+	 */
+	async saveQuery(name: string, query: string) {
+		upsertSavedQuery(this.settings.savedQueries, name, query);
+		await this.saveSettings();
+		this.onSavedQueriesChanged();
+	}
+
+	/**
+	 * Refresh commands and view dropdowns after saved queries change.
+	 */
+	onSavedQueriesChanged() {
+		this.registerSavedQueryCommands();
+		this.getSupergraphViews().forEach(view => view.onSavedQueriesChanged());
+	}
+
+	/**
+	 * Record a query in the recent-query history used by search autocomplete.
+	 */
+	async rememberQuery(query: string) {
+		const recent = addRecentQuery(this.settings.recentQueries, query);
+		// Skip the write when the query is already the most recent one
+		if (recent[0] === this.settings.recentQueries[0]) return;
+		this.settings.recentQueries = recent;
+		await this.saveSettings();
+	}
+
 	onunload() {
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_SUPERGRAPH);
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.store.load();
+		this.settings = data.settings;
+		this.boards = data.boards;
+		this.lastBoardId = data.lastBoardId;
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.store.save();
 	}
 
-	async activateView() {
+	/**
+	 * Settings and boards are persisted together as one snapshot, so this is
+	 * the same queued write as saveSettings.
+	 */
+	async saveBoards() {
+		await this.store.save();
+	}
+
+	getBoard(id: string): Board | undefined {
+		return this.boards.find(b => b.id === id);
+	}
+
+	private async deleteBoard(id: string) {
+		this.boards = this.boards.filter(b => b.id !== id);
+		if (this.lastBoardId === id) {
+			this.lastBoardId = this.boards[0].id;
+		}
+		await this.saveBoards();
+
+		// Views showing the deleted board fall back to the default one
+		for (const view of this.getSupergraphViews()) {
+			if (view.getBoardId() === id) {
+				await view.setBoard(this.lastBoardId);
+			} else {
+				view.onBoardsChanged();
+			}
+		}
+	}
+
+	async activateView(boardId = this.lastBoardId) {
 		const { workspace } = this.app;
 
 		// Always create a new tab in the main editor area (like Graph View)
 		const leaf = workspace.getLeaf('tab');
 		await leaf.setViewState({
 			type: VIEW_TYPE_SUPERGRAPH,
-			active: true
+			active: true,
+			state: { boardId }
 		});
 
 		workspace.revealLeaf(leaf);
 	}
 
-	refreshAllViews() {
+	/**
+	 * Open a local graph in the right sidebar, or reveal the one that is
+	 * already there. It centers on `focusPath` or else the active note.
+	 */
+	async activateLocalView(focusPath?: string) {
+		const { workspace } = this.app;
+
+		const existing = this.getSupergraphViews().find(view => view.isLocal());
+		if (existing) {
+			workspace.revealLeaf(existing.leaf);
+			if (focusPath) await existing.focusNote(focusPath);
+			return;
+		}
+
+		const leaf = workspace.getRightLeaf(false);
+		if (!leaf) return;
+		await leaf.setViewState({
+			type: VIEW_TYPE_SUPERGRAPH,
+			active: true,
+			state: {
+				boardId: this.lastBoardId,
+				local: { ...DEFAULT_LOCAL_GRAPH, enabled: true },
+				focus: focusPath
+			}
+		});
+
+		workspace.revealLeaf(leaf);
+	}
+
+	private queueFileChange(change: FileChange) {
+		// Consecutive edits to the same file only need to be applied once
+		const last = this.pendingFileChanges[this.pendingFileChanges.length - 1];
+		if (change.type === 'modify' && last?.type === 'modify' && last.file === change.file) {
+			return;
+		}
+		this.pendingFileChanges.push(change);
+		this.flushFileChangesDebounced();
+	}
+
+	private flushFileChanges() {
+		const changes = this.pendingFileChanges;
+		this.pendingFileChanges = [];
+		this.getSupergraphViews().forEach(view => view.applyFileChanges(changes));
+	}
+
+	private getSupergraphViews(): SupergraphView[] {
+		const views: SupergraphView[] = [];
 		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_SUPERGRAPH);
 		leaves.forEach(leaf => {
 			const view = leaf.view;
 			if (view instanceof SupergraphView) {
-				view.refreshGraph();
+				views.push(view);
 			}
 		});
+		return views;
+	}
+
+	refreshAllViews() {
+		this.getSupergraphViews().forEach(view => view.refreshGraph());
+	}
+
+	refreshDetailLevels() {
+		this.getSupergraphViews().forEach(view => view.updateLevelOfDetail());
 	}
 }
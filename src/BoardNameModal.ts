@@ -0,0 +1,60 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Modal prompting for a name, used when creating, duplicating or renaming
+ * boards and when saving search queries.
+ */
+export class BoardNameModal extends Modal {
+	private name: string;
+	private title: string;
+	private onSubmit: (name: string) => void;
+
+	constructor(
+		app: App,
+		title: string,
+		initialName: string,
+		onSubmit: (name: string) => void,
+	) {
+		super(app);
+		this.title = title;
+		this.name = initialName;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(this.title);
+
+		new Setting(contentEl).setName("Name").addText((text) => {
+			text.setValue(this.name).onChange((value) => {
+				this.name = value;
+			});
+			text.inputEl.addEventListener("keydown", (e) => {
+				if (e.key === "Enter") {
+					e.preventDefault();
+					this.submit();
+				}
+			});
+			// Focus after the modal has rendered
+			setTimeout(() => text.inputEl.select(), 0);
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Save")
+				.setCta()
+				.onClick(() => this.submit()),
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const name = this.name.trim();
+		if (!name) return;
+		this.onSubmit(name);
+		this.close();
+	}
+}
@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { Board } from "./types";
+
+/**
+ * Fuzzy picker over the saved boards.
+ */
+export class BoardSuggestModal extends FuzzySuggestModal<Board> {
+	private boards: Board[];
+	private onChoose: (board: Board) => void;
+
+	constructor(
+		app: App,
+		boards: Board[],
+		placeholder: string,
+		onChoose: (board: Board) => void,
+	) {
+		super(app);
+		this.boards = boards;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): Board[] {
+		return this.boards;
+	}
+
+	getItemText(board: Board): string {
+		return board.name;
+	}
+
+	onChooseItem(board: Board): void {
+		this.onChoose(board);
+	}
+}
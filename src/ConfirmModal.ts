@@ -0,0 +1,50 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Modal asking the user to confirm a destructive action, e.g. deleting a
+ * note from the graph.
+ */
+export class ConfirmModal extends Modal {
+	private title: string;
+	private message: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(
+		app: App,
+		title: string,
+		message: string,
+		confirmText: string,
+		onConfirm: () => void,
+	) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(this.title);
+		contentEl.createEl("p", { text: this.message });
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.confirmText)
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						this.onConfirm();
+					}),
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
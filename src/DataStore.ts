@@ -0,0 +1,123 @@
+import { Plugin, normalizePath } from "obsidian";
+import { GraphState, PluginData } from "./types";
+import { migratePluginData } from "./migrations";
+
+// Version of the separate layout file format
+const LAYOUT_FILE_VERSION = 1;
+
+interface LayoutFile {
+	version: number;
+	layouts: Record<string, GraphState>;
+}
+
+/**
+ * Single persistence layer for the plugin and all of its views.
+ *
+ * All data lives in memory and is written as a whole snapshot, so writes
+ * never read-modify-write each other. Writes are serialized through one
+ * queue, and a save requested while another is still waiting to run is
+ * folded into it.
+ *
+ * With `layoutStorage: "vault"`, board layouts are written to a JSON file in
+ * the vault instead of the plugin data file, keeping large position maps
+ * out of the settings.
+ */
+export class DataStore {
+	private plugin: Plugin;
+	private snapshot: () => PluginData;
+	private writeChain: Promise<void> = Promise.resolve();
+	private pendingWrite: Promise<void> | null = null;
+
+	constructor(plugin: Plugin, snapshot: () => PluginData) {
+		this.plugin = plugin;
+		this.snapshot = snapshot;
+	}
+
+	async load(): Promise<PluginData> {
+		const data = migratePluginData(await this.plugin.loadData());
+
+		if (data.settings.layoutStorage === "vault") {
+			const layouts = await this.readLayoutFile(
+				data.settings.layoutFilePath,
+			);
+			// Boards missing from the file keep any layout still in plugin data,
+			// e.g. right after switching storage
+			for (const board of data.boards) {
+				if (layouts[board.id]) {
+					board.graphState = layouts[board.id];
+				}
+			}
+		}
+
+		return data;
+	}
+
+	/**
+	 * Queue a write of the current data. Resolves once it is on disk.
+	 */
+	save(): Promise<void> {
+		if (this.pendingWrite) return this.pendingWrite;
+
+		const write = this.writeChain.then(() => {
+			// From here on, new saves must queue behind this one
+			this.pendingWrite = null;
+			return this.write();
+		});
+		this.pendingWrite = write;
+		this.writeChain = write.catch((e) => {
+			console.error("Supergraph: failed to save data", e);
+		});
+		return write;
+	}
+
+	private async write(): Promise<void> {
+		let data = this.snapshot();
+
+		if (data.settings.layoutStorage === "vault") {
+			const layouts: Record<string, GraphState> = {};
+			for (const board of data.boards) {
+				if (board.graphState) {
+					layouts[board.id] = board.graphState;
+				}
+			}
+			await this.writeLayoutFile(data.settings.layoutFilePath, layouts);
+			data = {
+				...data,
+				boards: data.boards.map((b) => ({ ...b, graphState: null })),
+			};
+		}
+
+		await this.plugin.saveData(data);
+	}
+
+	private async readLayoutFile(
+		path: string,
+	): Promise<Record<string, GraphState>> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = normalizePath(path);
+		try {
+			if (!(await adapter.exists(filePath))) return {};
+			const file: LayoutFile = JSON.parse(await adapter.read(filePath));
+			return file.layouts ?? {};
+		} catch (e) {
+			console.error(`Supergraph: could not read ${filePath}`, e);
+			return {};
+		}
+	}
+
+	private async writeLayoutFile(
+		path: string,
+		layouts: Record<string, GraphState>,
+	): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const filePath = normalizePath(path);
+
+		const folder = filePath.split("/").slice(0, -1).join("/");
+		if (folder && !(await adapter.exists(folder))) {
+			await adapter.mkdir(folder);
+		}
+
+		const file: LayoutFile = { version: LAYOUT_FILE_VERSION, layouts };
+		await adapter.write(filePath, JSON.stringify(file));
+	}
+}
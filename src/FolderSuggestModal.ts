@@ -0,0 +1,32 @@
+import { App, FuzzySuggestModal, TFolder } from "obsidian";
+
+/**
+ * Fuzzy picker over the folders in the vault.
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private onChoose: (folder: TFolder) => void;
+
+	constructor(
+		app: App,
+		placeholder: string,
+		onChoose: (folder: TFolder) => void,
+	) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault
+			.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
@@ -0,0 +1,90 @@
+import { App, ColorComponent, Modal, Setting } from "obsidian";
+
+// Shown in the picker when the edge uses the theme accent color
+const DEFAULT_PICKER_COLOR = "#7f6df2";
+
+/**
+ * Editable fields of a manual edge.
+ */
+export interface ManualEdgeDetails {
+	label: string;
+	color: string;
+}
+
+/**
+ * Modal for labeling and recoloring a manual edge.
+ * An empty color means "use the theme accent color".
+ */
+export class ManualEdgeModal extends Modal {
+	private details: ManualEdgeDetails;
+	private onSubmit: (details: ManualEdgeDetails) => void;
+
+	constructor(
+		app: App,
+		details: ManualEdgeDetails,
+		onSubmit: (details: ManualEdgeDetails) => void,
+	) {
+		super(app);
+		this.details = { ...details };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText("Edit edge");
+
+		new Setting(contentEl).setName("Label").addText((text) => {
+			text.setPlaceholder("e.g. supports, contradicts")
+				.setValue(this.details.label)
+				.onChange((value) => {
+					this.details.label = value;
+				});
+			text.inputEl.addEventListener("keydown", (e) => {
+				if (e.key === "Enter") {
+					e.preventDefault();
+					this.submit();
+				}
+			});
+		});
+
+		let colorPicker: ColorComponent | null = null;
+		new Setting(contentEl)
+			.setName("Color")
+			.addColorPicker((picker) => {
+				colorPicker = picker;
+				picker
+					.setValue(this.details.color || DEFAULT_PICKER_COLOR)
+					.onChange((value) => {
+						this.details.color = value;
+					});
+			})
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("rotate-ccw")
+					.setTooltip("Use accent color")
+					.onClick(() => {
+						this.details.color = "";
+						colorPicker?.setValue(DEFAULT_PICKER_COLOR);
+					}),
+			);
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Save")
+				.setCta()
+				.onClick(() => this.submit()),
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.onSubmit({
+			label: this.details.label.trim(),
+			color: this.details.color,
+		});
+		this.close();
+	}
+}
@@ -0,0 +1,33 @@
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+/**
+ * Fuzzy picker over a given list of notes, e.g. the notes in the graph.
+ */
+export class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(
+		app: App,
+		files: TFile[],
+		placeholder: string,
+		onChoose: (file: TFile) => void,
+	) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
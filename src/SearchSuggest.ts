@@ -11,7 +11,7 @@ import {
  */
 
 export interface SuggestionItem {
-	type: "tag" | "path" | "prefix" | "file";
+	type: "tag" | "path" | "prefix" | "file" | "property" | "recent";
 	value: string; // The value to insert
 	display: string; // Display text in dropdown
 }
@@ -20,18 +20,39 @@ export interface SuggestionItem {
 const PREFIX_SUGGESTIONS: SuggestionItem[] = [
 	{ type: "prefix", value: "tag:", display: "tag:" },
 	{ type: "prefix", value: "path:", display: "path:" },
+	{ type: "prefix", value: "file:", display: "file:" },
+	{ type: "prefix", value: "content:", display: "content:" },
+	{ type: "prefix", value: "line:", display: "line:" },
+	{ type: "prefix", value: "section:", display: "section:" },
+	{ type: "prefix", value: "[", display: "[property:value]" },
 	{ type: "prefix", value: "-", display: "- (exclude)" },
 ];
 
+/**
+ * Quote values containing whitespace so they parse as a single term,
+ * e.g. path:"Daily Notes".
+ */
+function quoteIfNeeded(value: string): string {
+	return /\s/.test(value) ? `"${value}"` : value;
+}
+
 export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 	private tags: Set<string> = new Set();
 	private paths: Set<string> = new Set();
 	private files: Map<string, string> = new Map(); // basename -> path
+	// Frontmatter property name -> distinct scalar values
+	private properties: Map<string, Set<string>> = new Map();
 	private textInputEl: HTMLInputElement;
+	private getRecentQueries: () => string[];
 
-	constructor(app: App, inputEl: HTMLInputElement) {
+	constructor(
+		app: App,
+		inputEl: HTMLInputElement,
+		getRecentQueries: () => string[] = () => [],
+	) {
 		super(app, inputEl);
 		this.textInputEl = inputEl;
+		this.getRecentQueries = getRecentQueries;
 		this.limit = 20;
 		this.refreshSuggestionData();
 	}
@@ -44,6 +65,7 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 		this.tags.clear();
 		this.paths.clear();
 		this.files.clear();
+		this.properties.clear();
 
 		const markdownFiles = this.app.vault.getMarkdownFiles();
 
@@ -81,11 +103,29 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 					this.tags.add(fmTags.replace(/^#/, "").toLowerCase());
 				}
 			}
+
+			// Frontmatter property names and values
+			for (const [key, raw] of Object.entries(cache?.frontmatter ?? {})) {
+				const name = key.toLowerCase();
+				const values = this.properties.get(name) ?? new Set<string>();
+				this.properties.set(name, values);
+				for (const v of Array.isArray(raw) ? raw : [raw]) {
+					if (
+						typeof v === "string" ||
+						typeof v === "number" ||
+						typeof v === "boolean"
+					) {
+						values.add(String(v).toLowerCase());
+					}
+				}
+			}
 		}
 	}
 
 	/**
 	 * Get the current token being typed (last space-separated term).
+	 * Opening parentheses (and negated groups like "-(") before the token
+	 * are kept as part of the prefix.
 	 */
 	private getCurrentToken(inputValue: string): {
 		prefix: string;
@@ -94,8 +134,9 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 	} {
 		const parts = inputValue.split(/\s+/);
 		const lastPart = parts[parts.length - 1] || "";
+		const groupOpeners = lastPart.match(/^(-?\()*/)?.[0] ?? "";
 
-		let token = lastPart;
+		let token = lastPart.slice(groupOpeners.length);
 		let isNegated = false;
 
 		// Check for negation
@@ -106,7 +147,8 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 
 		// Everything before the current token
 		const prefix =
-			parts.length > 1 ? parts.slice(0, -1).join(" ") + " " : "";
+			(parts.length > 1 ? parts.slice(0, -1).join(" ") + " " : "") +
+			groupOpeners;
 
 		return { prefix, token, isNegated };
 	}
@@ -114,7 +156,14 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 	getSuggestions(inputValue: string): SuggestionItem[] {
 		const { prefix, token, isNegated } = this.getCurrentToken(inputValue);
 		const suggestions: SuggestionItem[] = [];
-		const negationPrefix = isNegated ? "-" : "";
+
+		// On an empty search box, offer recent queries before the prefixes
+		if (inputValue.trim() === "") {
+			const recent: SuggestionItem[] = this.getRecentQueries().map(
+				(query) => ({ type: "recent", value: query, display: query }),
+			);
+			return [...recent, ...PREFIX_SUGGESTIONS];
+		}
 
 		// If at start of token or just typed "-", show prefix suggestions
 		if (token === "" || (token === "-" && !isNegated)) {
@@ -123,7 +172,7 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 
 		// Handle tag: prefix - suggest tag values only
 		if (token.startsWith("tag:")) {
-			const tagQuery = token.slice(4).toLowerCase();
+			const tagQuery = token.slice(4).replace(/^#/, "").toLowerCase();
 			for (const tag of this.tags) {
 				if (tag.includes(tagQuery)) {
 					suggestions.push({
@@ -137,9 +186,41 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 			return suggestions;
 		}
 
+		// Handle [property:value] - suggest names, then that property's values
+		if (token.startsWith("[") && !token.includes("]")) {
+			const inner = token.slice(1).toLowerCase();
+			const colon = inner.indexOf(":");
+			if (colon === -1) {
+				for (const name of this.properties.keys()) {
+					if (name.includes(inner)) {
+						suggestions.push({
+							type: "property",
+							value: `[${name}:`,
+							display: name,
+						});
+					}
+					if (suggestions.length >= this.limit) break;
+				}
+				return suggestions;
+			}
+			const name = inner.slice(0, colon);
+			const valueQuery = inner.slice(colon + 1).replace(/^"/, "");
+			for (const value of this.properties.get(name) ?? []) {
+				if (value.includes(valueQuery)) {
+					suggestions.push({
+						type: "property",
+						value: `[${name}:${quoteIfNeeded(value)}]`,
+						display: `${name}: ${value}`,
+					});
+				}
+				if (suggestions.length >= this.limit) break;
+			}
+			return suggestions;
+		}
+
 		// Handle path: prefix - suggest path values only
 		if (token.startsWith("path:")) {
-			const pathQuery = token.slice(5).toLowerCase();
+			const pathQuery = token.slice(5).replace(/^"/, "").toLowerCase();
 			for (const path of this.paths) {
 				if (path.toLowerCase().includes(pathQuery)) {
 					suggestions.push({
@@ -162,10 +243,7 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 				prefixSug.value.startsWith(query) &&
 				prefixSug.value !== query
 			) {
-				suggestions.push({
-					...prefixSug,
-					value: negationPrefix + prefixSug.value,
-				});
+				suggestions.push(prefixSug);
 			}
 		}
 
@@ -174,7 +252,7 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 			if (tag.includes(query)) {
 				suggestions.push({
 					type: "tag",
-					value: `${negationPrefix}tag:${tag}`,
+					value: tag,
 					display: `#${tag}`,
 				});
 			}
@@ -186,7 +264,7 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 			if (basename.includes(query)) {
 				suggestions.push({
 					type: "file",
-					value: `${negationPrefix}path:${path}`,
+					value: path,
 					display: basename,
 				});
 			}
@@ -212,6 +290,12 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 			case "prefix":
 				setIcon(iconEl, "search");
 				break;
+			case "property":
+				setIcon(iconEl, "list");
+				break;
+			case "recent":
+				setIcon(iconEl, "history");
+				break;
 		}
 
 		// Display text
@@ -222,6 +306,15 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 		item: SuggestionItem,
 		_evt: MouseEvent | KeyboardEvent,
 	): void {
+		// Recent queries replace the whole search
+		if (item.type === "recent") {
+			this.textInputEl.value = item.value;
+			this.setValue(item.value);
+			this.textInputEl.dispatchEvent(new Event("input", { bubbles: true }));
+			this.close();
+			return;
+		}
+
 		const inputValue = this.textInputEl.value;
 		const { prefix, token, isNegated } = this.getCurrentToken(inputValue);
 		const negationPrefix = isNegated ? "-" : "";
@@ -230,8 +323,10 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 
 		// Reconstruct the full token based on context
 		if (item.type === "tag") {
-			// If we're in a tag: context, preserve it; otherwise add it
-			if (token.startsWith("tag:")) {
+			// If we're in a tag: context, preserve it (and exact "#" mode); otherwise add it
+			if (token.startsWith("tag:#")) {
+				insertValue = `${negationPrefix}tag:#${item.value}`;
+			} else if (token.startsWith("tag:")) {
 				insertValue = `${negationPrefix}tag:${item.value}`;
 			} else {
 				insertValue = `${negationPrefix}tag:${item.value}`;
@@ -239,20 +334,22 @@ export class SearchSuggest extends AbstractInputSuggest<SuggestionItem> {
 		} else if (item.type === "path") {
 			// If we're in a path: context, preserve it
 			if (token.startsWith("path:")) {
-				insertValue = `${negationPrefix}path:${item.value}`;
+				insertValue = `${negationPrefix}path:${quoteIfNeeded(item.value)}`;
 			} else {
-				insertValue = `${negationPrefix}path:${item.value}`;
+				insertValue = `${negationPrefix}path:${quoteIfNeeded(item.value)}`;
 			}
 		} else if (item.type === "file") {
 			// Files get path: prefix
-			insertValue = `${negationPrefix}path:${item.value}`;
+			insertValue = `${negationPrefix}path:${quoteIfNeeded(item.value)}`;
 		} else {
 			// Prefixes and other types use value as-is
 			insertValue = `${negationPrefix}${item.value}`;
 		}
 
-		// Replace current token with selected suggestion
-		const newValue = prefix + insertValue + " ";
+		// Replace current token with selected suggestion. Leave the cursor
+		// right after "tag:" or "[status:" so the value can be typed next.
+		const separator = /[:[]$/.test(insertValue) ? "" : " ";
+		const newValue = prefix + insertValue + separator;
 		this.textInputEl.value = newValue;
 		this.setValue(newValue);
 
@@ -1,5 +1,6 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, TextComponent } from 'obsidian';
 import SupergraphPlugin from '../main';
+import { LayoutStorage } from './settings';
 
 export class SupergraphSettingTab extends PluginSettingTab {
 	plugin: SupergraphPlugin;
@@ -53,17 +54,45 @@ export class SupergraphSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		// Titles never show from a higher zoom than cards, so each threshold
+		// pushes the other along
+		let cardsText: TextComponent;
+		let titlesText: TextComponent;
 		new Setting(containerEl)
 			.setName('Minimum zoom for cards')
-			.setDesc('Zoom level at which to switch from dots to card view (0-2)')
-			.addText(text => text
+			.setDesc('Zoom level at which to switch from titles to full cards with snippets (0-2)')
+			.addText(text => cardsText = text
 				.setPlaceholder('0.5')
 				.setValue(String(this.plugin.settings.minZoomForCards))
 				.onChange(async (value) => {
 					const num = parseFloat(value);
 					if (!isNaN(num) && num >= 0 && num <= 2) {
 						this.plugin.settings.minZoomForCards = num;
+						if (this.plugin.settings.minZoomForTitles > num) {
+							this.plugin.settings.minZoomForTitles = num;
+							titlesText.setValue(String(num));
+						}
+						await this.plugin.saveSettings();
+						this.plugin.refreshDetailLevels();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum zoom for titles')
+			.setDesc('Zoom level at which to switch from dots to title-only nodes (0-2)')
+			.addText(text => titlesText = text
+				.setPlaceholder('0.25')
+				.setValue(String(this.plugin.settings.minZoomForTitles))
+				.onChange(async (value) => {
+					const num = parseFloat(value);
+					if (!isNaN(num) && num >= 0 && num <= 2) {
+						this.plugin.settings.minZoomForTitles = num;
+						if (this.plugin.settings.minZoomForCards < num) {
+							this.plugin.settings.minZoomForCards = num;
+							cardsText.setValue(String(num));
+						}
 						await this.plugin.saveSettings();
+						this.plugin.refreshDetailLevels();
 					}
 				}));
 
@@ -77,16 +106,150 @@ export class SupergraphSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Write manual edges to frontmatter')
+			.setDesc('Store new manual edges as links in the source note\'s frontmatter instead of plugin data')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.writeManualEdgesToFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.writeManualEdgesToFrontmatter = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Pin property')
+			.setDesc('Frontmatter property that pins a note in place when true, or unpins it when false')
+			.addText(text => text
+				.setPlaceholder('pinned')
+				.setValue(this.plugin.settings.pinProperty)
+				.onChange(async (value) => {
+					this.plugin.settings.pinProperty = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Layout storage')
+			.setDesc('Where board layouts (positions, manual edges, zoom) are saved. A vault file keeps large layouts out of the plugin settings.')
+			.addDropdown(dropdown => dropdown
+				.addOption('plugin', 'Plugin data')
+				.addOption('vault', 'Vault file')
+				.setValue(this.plugin.settings.layoutStorage)
+				.onChange(async (value) => {
+					this.plugin.settings.layoutStorage = value as LayoutStorage;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.layoutStorage === 'vault') {
+			new Setting(containerEl)
+				.setName('Layout file')
+				.setDesc('Path of the JSON file in the vault that stores board layouts')
+				.addText(text => text
+					.setPlaceholder('layouts.supergraph')
+					.setValue(this.plugin.settings.layoutFilePath)
+					.onChange(async (value) => {
+						const path = value.trim();
+						if (path) {
+							this.plugin.settings.layoutFilePath = path;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		containerEl.createEl('h3', { text: 'Relation types' });
+		containerEl.createEl('p', {
+			text: 'Frontmatter keys used for manual edges. New edges use the first type; right-click an edge to change it.',
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.relationTypes.forEach((relation, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(relation.name)
+					.onChange(async (value) => {
+						relation.name = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+					}))
+				.addText(text => text
+					.setPlaceholder('Frontmatter key')
+					.setValue(relation.key)
+					.onChange(async (value) => {
+						relation.key = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+					}))
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Remove relation type')
+					.setDisabled(this.plugin.settings.relationTypes.length <= 1)
+					.onClick(async () => {
+						this.plugin.settings.relationTypes = this.plugin.settings.relationTypes
+							.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(btn => btn
+				.setButtonText('Add relation type')
+				.onClick(async () => {
+					this.plugin.settings.relationTypes = [
+						...this.plugin.settings.relationTypes,
+						{ name: '', key: '' }
+					];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		containerEl.createEl('h3', { text: 'Saved queries' });
+		containerEl.createEl('p', {
+			text: 'Save queries from the search box in the graph panel. Each saved query gets an "Apply filter" command.',
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.savedQueries.forEach((saved) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(saved.name)
+					.onChange(async (value) => {
+						saved.name = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.onSavedQueriesChanged();
+					}))
+				.addText(text => text
+					.setPlaceholder('Query')
+					.setValue(saved.query)
+					.onChange(async (value) => {
+						saved.query = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.onSavedQueriesChanged();
+					}))
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Remove saved query')
+					.onClick(async () => {
+						this.plugin.settings.savedQueries = this.plugin.settings.savedQueries
+							.filter(q => q.id !== saved.id);
+						await this.plugin.saveSettings();
+						this.plugin.onSavedQueriesChanged();
+						this.display();
+					}));
+		});
+
 		new Setting(containerEl)
 			.setName('File filter')
-			.setDesc('Only show files matching this text (case-insensitive)')
+			.setDesc('Default search query for new boards (case-insensitive)')
 			.addText(text => text
 				.setPlaceholder('folder/path or keyword')
 				.setValue(this.plugin.settings.fileFilter)
 				.onChange(async (value) => {
 					this.plugin.settings.fileFilter = value;
 					await this.plugin.saveSettings();
-					this.plugin.refreshAllViews();
 				}));
 	}
 }
@@ -1,19 +1,140 @@
-import { ItemView, TFile, WorkspaceLeaf, debounce, setIcon } from "obsidian";
-import cytoscape, { Core, EventObject } from "cytoscape";
+import {
+	HoverParent,
+	HoverPopover,
+	ItemView,
+	Keymap,
+	Menu,
+	Notice,
+	PaneType,
+	Scope,
+	TFile,
+	ViewStateResult,
+	WorkspaceLeaf,
+	debounce,
+	getIcon,
+	setIcon,
+} from "obsidian";
+import cytoscape, {
+	Core,
+	EdgeSingular,
+	EventObject,
+	NodeSingular,
+} from "cytoscape";
 // @ts-ignore - no types available
 import d3Force from "cytoscape-d3-force";
 // @ts-ignore - no types available
 import nodeHtmlLabel from "cytoscape-node-html-label";
-import { GraphState, GraphNode, GraphEdge } from "./types";
-import { parseQuery, matchesQuery } from "./graphSearch";
+// @ts-ignore - no types available
+import cola from "cytoscape-cola";
+import {
+	Board,
+	ColorGroup,
+	DisplaySettings,
+	FileChange,
+	ForceSettings,
+	GraphState,
+	GraphNode,
+	GraphEdge,
+	LayoutName,
+	LayoutSettings,
+	LocalGraphOptions,
+	NodePosition,
+	SizeMetric,
+} from "./types";
+import {
+	QueryNode,
+	QuerySyntaxError,
+	parseQuery,
+	matchesQuery,
+	queryNeedsContent,
+} from "./graphSearch";
 import { SearchSuggest } from "./SearchSuggest";
+import { ManualEdgeModal } from "./ManualEdgeModal";
+import { BoardNameModal } from "./BoardNameModal";
+import { ConfirmModal } from "./ConfirmModal";
+import { FolderSuggestModal } from "./FolderSuggestModal";
+import { NoteSuggestModal } from "./NoteSuggestModal";
+import { Axis, alignPositions, distributePositions } from "./arrange";
+import {
+	DEFAULT_LAYOUT,
+	LAYOUT_NAMES,
+	buildTreeParents,
+	compareByProperty,
+	computeTreePositions,
+} from "./layouts";
+import {
+	addTagToFiles,
+	createLinkingNote,
+	moveFilesToFolder,
+} from "./bulkActions";
+import {
+	CompiledColorGroup,
+	GROUP_PALETTE,
+	compileColorGroups,
+	findGroupColor,
+} from "./colorGroups";
+import { buildAttachmentNode } from "./attachmentNodes";
+import {
+	buildUnresolvedNode,
+	isUnresolvedNodeId,
+	unresolvedNodeId,
+} from "./unresolvedNodes";
+import {
+	buildLinkEdges,
+	collectPropertyLinkKeys,
+	edgeKindKey,
+	reverseEdgeId,
+} from "./linkEdges";
+import {
+	DEFAULT_LOCAL_GRAPH,
+	MAX_LOCAL_DEPTH,
+	collectNeighborhood,
+	parseLocalGraphOptions,
+} from "./localGraph";
+import { folderPathFromId, groupByFolder } from "./folderNodes";
+import { edgesBetween } from "./graphEdges";
+import { Community, detectCommunities } from "./communities";
+import {
+	NodeMetrics,
+	SIZE_METRIC_NAMES,
+	computeGraphMetrics,
+	readNumericProperty,
+	readWordCount,
+	scaleValues,
+} from "./nodeMetrics";
+import {
+	DEFAULT_PATH_OPTIONS,
+	PathOptions,
+	findShortestPaths,
+	isPathEdge,
+} from "./pathFinder";
+import {
+	buildNoteTagEdges,
+	buildTagGraph,
+	buildTagNode,
+	buildTagParentEdge,
+	getFileTags,
+	getTagHierarchy,
+	tagNodeId,
+} from "./tagNodes";
+import {
+	addFrontmatterRelation,
+	frontmatterEdgeId,
+	readFrontmatterEdges,
+	removeFrontmatterRelation,
+} from "./frontmatterEdges";
 import SupergraphPlugin from "../main";
 
 cytoscape.use(d3Force);
+cytoscape.use(cola);
 nodeHtmlLabel(cytoscape);
 
 export const VIEW_TYPE_SUPERGRAPH = "supergraph-view";
 
+// Temporary elements used to preview a manual edge while it is being drawn
+const DRAFT_HANDLE_ID = "__supergraph-draft-handle";
+const DRAFT_EDGE_ID = "__supergraph-draft-edge";
+
 /**
  * Physics constants for the d3-force simulation.
  *
@@ -25,6 +146,7 @@ export const VIEW_TYPE_SUPERGRAPH = "supergraph-view";
  *   - repelStrength = -repelForce * REPEL_MULTIPLIER     (e.g., -4 * 60 = -240)
  *   - centerStrength = centerForce * CENTER_MULTIPLIER  (e.g., 0.3 * 0.3 = 0.09)
  *   - linkStrength = linkForce * LINK_STRENGTH_MULTIPLIER (e.g., 0.3 * 0.3 = 0.09)
+ *     scaled per edge by its link count (see getWeightScale)
  *   - collideRadius = nodeSize * COLLIDE_RADIUS_MULTIPLIER (e.g., 10 * 2 = 20)
  */
 const PHYSICS = {
@@ -46,6 +168,11 @@ const PHYSICS = {
 	MANY_BODY_DISTANCE_MAX: 1000, // Maximum distance for repulsion effect
 	MIN_LINK_DISTANCE: 30, // Minimum edge length (prevents nodes from overlapping)
 	COLLIDE_STRENGTH: 1, // How strongly nodes avoid overlapping (0-1)
+	MAX_WEIGHT_SCALE: 3, // Cap on how much repeated links strengthen and thicken an edge
+
+	// Local nudges after incremental updates (other nodes stay fixed)
+	NUDGE_ALPHA: 0.3, // Initial energy when settling changed nodes
+	NUDGE_ALPHA_DECAY: 0.05, // Faster cool down so the nudge is brief
 
 	// Initial node positioning
 	INITIAL_SPREAD: 40, // Random spread (px) when nodes start from center
@@ -56,32 +183,43 @@ const PHYSICS = {
 	DEFAULT_HEIGHT: 600,
 };
 
-// Display settings - user-configurable via UI sliders
-interface DisplaySettings {
-	nodeSize: number;
-	linkThickness: number;
-	showArrows: boolean;
-	showOrphans: boolean;
-	cardWidth: number;
-	cardHeight: number;
-	snippetLength: number;
+// Gap (px) between cards in the tree and grid layouts
+const LAYOUT_GAP = 40;
+// Communities listed in the legend, largest first
+const LEGEND_COMMUNITIES = 8;
+// Smallest community that gets a label on the graph
+const CLUSTER_LABEL_MIN_SIZE = 3;
+
+/**
+ * Scale factor for an edge standing for `weight` links: 1 for a single
+ * link, growing logarithmically up to PHYSICS.MAX_WEIGHT_SCALE.
+ */
+function getWeightScale(weight = 1): number {
+	return Math.min(1 + Math.log2(Math.max(weight, 1)), PHYSICS.MAX_WEIGHT_SCALE);
 }
 
 /**
- * Force settings - user-configurable via UI sliders.
+ * Level-of-detail constants.
  *
- * These values are multiplied with PHYSICS constants to produce final d3-force values:
- *   - centerForce: Pull toward center (0 = none, 1 = strong)
- *   - repelForce: Push nodes apart (0 = none, higher = stronger repulsion)
- *   - linkForce: How strongly edges pull connected nodes together (0-2)
- *   - linkDistance: Target distance between connected nodes (px)
+ * Below `minZoomForTitles` nodes render as plain dots sized by degree, between
+ * that and `minZoomForCards` as title-only pills, and above as full cards.
+ *   - dotSize = nodeSize * min(DOT_BASE_SCALE + sqrt(degree), DOT_MAX_SCALE)
  */
-interface ForceSettings {
-	centerForce: number;
-	repelForce: number;
-	linkForce: number;
-	linkDistance: number;
-}
+const LOD = {
+	TITLE_HEIGHT: 36, // Height (px) of title-only pills
+	TAG_HEIGHT: 28, // Height (px) of tag pills
+	TAG_CHAR_WIDTH: 7, // Approximate width (px) per character of a tag label
+	TAG_PADDING: 24, // Horizontal padding (px) inside tag pills
+	DOT_BASE_SCALE: 4, // Dot diameter of an unconnected node, in nodeSize units
+	DOT_MAX_SCALE: 16, // Largest dot diameter, in nodeSize units
+};
+
+type DetailLevel = "dot" | "title" | "card";
+
+// How the neighborhood or path highlight shows a node
+type HighlightState = "highlighted" | "dimmed" | "hidden";
+
+const HIGHLIGHT_STATES: HighlightState[] = ["highlighted", "dimmed", "hidden"];
 
 const DEFAULT_DISPLAY: DisplaySettings = {
 	nodeSize: 15,
@@ -91,6 +229,13 @@ const DEFAULT_DISPLAY: DisplaySettings = {
 	cardWidth: 200,
 	cardHeight: 120,
 	snippetLength: 150,
+	hiddenEdgeKinds: [],
+	showFolders: false,
+	colorByCommunity: false,
+	sizeBy: "uniform",
+	sizeProperty: "",
+	minScale: 1,
+	maxScale: 2.5,
 };
 
 const DEFAULT_FORCES: ForceSettings = {
@@ -100,7 +245,8 @@ const DEFAULT_FORCES: ForceSettings = {
 	linkDistance: 100, // Target 80px between connected nodes
 };
 
-export class SupergraphView extends ItemView {
+export class SupergraphView extends ItemView implements HoverParent {
+	hoverPopover: HoverPopover | null = null;
 	private cy: Core | null = null;
 	private plugin: SupergraphPlugin;
 	private graphContainer: HTMLElement | null = null;
@@ -111,7 +257,73 @@ export class SupergraphView extends ItemView {
 	private settingsToggle: HTMLElement | null = null;
 	private display: DisplaySettings = { ...DEFAULT_DISPLAY };
 	private forces: ForceSettings = { ...DEFAULT_FORCES };
+	private groups: ColorGroup[] = [];
+	private layoutSettings: LayoutSettings = { ...DEFAULT_LAYOUT };
+	private legendEl: HTMLElement | null = null;
+	private communities: Community[] = [];
+	private clusterLabelsEl: HTMLElement | null = null;
+	private clusterLabels: {
+		el: HTMLElement;
+		nodes: cytoscape.NodeCollection;
+	}[] = [];
+	// Pending animation frame that repositions the cluster labels
+	private clusterLabelFrame: number | null = null;
+	// Metrics behind the node sizes, shown in the tooltip
+	private nodeMetrics = new Map<string, NodeMetrics>();
+	// Bumped on every size update so slower, outdated runs are discarded
+	private sizeGeneration = 0;
+	private tooltipEl: HTMLElement | null = null;
+	// Find-path mode: the ends picked so far and the shortest paths found
+	private pathFinder: {
+		source: string | null;
+		target: string | null;
+		paths: string[][];
+	} | null = null;
+	private pathOptions: PathOptions = { ...DEFAULT_PATH_OPTIONS };
+	private pathPanelEl: HTMLElement | null = null;
+	// Neighborhood highlight: the hovered node, and in focus mode the node
+	// whose neighborhood stays lit until another one is clicked
+	private hoveredNode: string | null = null;
+	// Highlight state of each lit, faded or hidden node, for its HTML label
+	private nodeHighlights = new Map<string, HighlightState>();
+	private focusMode = false;
+	private focusedNode: string | null = null;
+	private hideNonNeighbors = false;
+	private updateHighlightDebounced: () => void;
+	private recolorNodesDebounced: () => void;
+	// Bumped on every recolor so slower, outdated runs are discarded
+	private recolorGeneration = 0;
+	// Bumped on every load so slower, outdated loads (e.g. while typing a
+	// content query) never render over newer ones
+	private loadGeneration = 0;
 	private searchSuggest: SearchSuggest | null = null;
+	private edgeDraftSource: NodeSingular | null = null;
+	private detailLevel: DetailLevel = "card";
+	private nudgeLockedNodes: cytoscape.NodeCollection | null = null;
+	private boardId = "";
+	private local: LocalGraphOptions = { ...DEFAULT_LOCAL_GRAPH };
+	// Note the local graph is centered on
+	private focusPath: string | null = null;
+	// Folders drawn as summary nodes, and the nodes hidden inside them
+	private collapsedFolders = new Set<string>();
+	private collapsedMembers = new Set<string>();
+	// Included notes and attachments from the last load, by path; local
+	// graphs are recomputed from these as notes change
+	private fileNodes = new Map<string, GraphNode>();
+	// New notes whose incoming links may not be indexed yet
+	private createdPaths = new Set<string>();
+	// Each note's link and tag edges as of the last build with folders
+	// shown, to tell edits that change them from ones that don't
+	private edgeSignatures = new Map<string, string>();
+	private parsedQuery: {
+		source: string;
+		matchCase: boolean;
+		query: QueryNode | null;
+	} = {
+		source: "",
+		matchCase: false,
+		query: null,
+	};
 
 	constructor(leaf: WorkspaceLeaf, plugin: SupergraphPlugin) {
 		super(leaf);
@@ -127,6 +339,38 @@ export class SupergraphView extends ItemView {
 			300,
 			true,
 		);
+		this.recolorNodesDebounced = debounce(
+			() => this.recolorNodes(),
+			300,
+			true,
+		);
+		// Short, so hovering feels immediate but leaving one card for the
+		// next (or a box selection) redraws once
+		this.updateHighlightDebounced = debounce(
+			() => this.updateHighlight(),
+			30,
+			true,
+		);
+
+		// Arrow keys walk to adjacent nodes while the graph is active
+		this.scope = new Scope(this.app.scope);
+		const arrows = [
+			["ArrowUp", 0, -1],
+			["ArrowDown", 0, 1],
+			["ArrowLeft", -1, 0],
+			["ArrowRight", 1, 0],
+		] as const;
+		for (const [key, dx, dy] of arrows) {
+			this.scope.register([], key, (evt) =>
+				this.handleNavigationKey(evt, () => this.moveToNeighbor(dx, dy)),
+			);
+		}
+		this.scope.register([], "Enter", (evt) =>
+			this.handleNavigationKey(evt, () => this.openKeyboardNode()),
+		);
+		this.scope.register([], "Escape", (evt) =>
+			this.handleNavigationKey(evt, () => this.clearHighlight()),
+		);
 	}
 
 	getViewType(): string {
@@ -134,16 +378,178 @@ export class SupergraphView extends ItemView {
 	}
 
 	getDisplayText(): string {
-		return "Supergraph";
+		const title = this.local.enabled ? "Local supergraph" : "Supergraph";
+		const board = this.getBoard();
+		return board ? `${title}: ${board.name}` : title;
 	}
 
 	getIcon(): string {
 		return "git-fork";
 	}
 
+	getState(): Record<string, unknown> {
+		return {
+			...super.getState(),
+			boardId: this.boardId,
+			local: { ...this.local },
+		};
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const { boardId, local, focus } =
+			(state as {
+				boardId?: unknown;
+				local?: unknown;
+				focus?: unknown;
+			} | null) ?? {};
+		if (local !== undefined) {
+			await this.setLocalGraph(
+				parseLocalGraphOptions(local),
+				typeof focus === "string" ? focus : undefined,
+			);
+		}
+		if (typeof boardId === "string") {
+			await this.setBoard(boardId);
+		}
+		await super.setState(state, result);
+	}
+
+	isLocal(): boolean {
+		return this.local.enabled;
+	}
+
+	/**
+	 * Switch local mode on or off, or change its depth and directions.
+	 * When switching it on, the graph centers on `focus` or else the
+	 * active note.
+	 */
+	async setLocalGraph(
+		options: LocalGraphOptions,
+		focus?: string,
+	): Promise<void> {
+		const wasEnabled = this.local.enabled;
+		// Keep the board's arrangement before the graph shrinks to a slice
+		if (options.enabled && !wasEnabled && this.cy && this.getBoard()) {
+			await this.saveGraphState();
+		}
+		this.local = options;
+		if (options.enabled && !wasEnabled) {
+			this.focusPath =
+				focus ?? this.app.workspace.getActiveFile()?.path ?? null;
+		}
+		// Persist the new options with the workspace layout
+		this.app.workspace.requestSaveLayout();
+
+		// Before onOpen has run there is nothing to redraw yet
+		if (!this.cy) return;
+		if (options.enabled !== wasEnabled) {
+			// Lay the neighborhood out afresh instead of reusing the whole
+			// board's spread-out positions
+			if (options.enabled) this.cy.elements().remove();
+			this.onBoardsChanged();
+		}
+		await this.loadGraphData();
+	}
+
+	/**
+	 * Center the local graph on a note, turning local mode on if needed.
+	 */
+	async focusNote(path: string): Promise<void> {
+		if (this.local.enabled) {
+			this.focusPath = path;
+			await this.loadGraphData();
+		} else {
+			await this.setLocalGraph({ ...this.local, enabled: true }, path);
+		}
+	}
+
+	/**
+	 * In local mode, re-center on the note that was just focused.
+	 */
+	private followActiveFile(): void {
+		if (!this.local.enabled) return;
+		const file = this.app.workspace.getActiveFile();
+		// Keep the current focus while the graph itself or a non-file view is active
+		if (!file || file.path === this.focusPath) return;
+		this.focusPath = file.path;
+		// Only the neighborhood moves, so the loaded nodes are reused
+		this.buildGraph(this.loadGeneration);
+	}
+
+	getBoardId(): string {
+		return this.boardId;
+	}
+
+	private getBoard(): Board | undefined {
+		return this.plugin.getBoard(this.boardId);
+	}
+
+	/**
+	 * Bind the view to another board, saving the current arrangement first.
+	 */
+	async setBoard(boardId: string): Promise<void> {
+		if (boardId === this.boardId || !this.plugin.getBoard(boardId)) return;
+
+		if (this.cy && this.getBoard()) {
+			await this.saveGraphState();
+		}
+		this.boardId = boardId;
+		this.plugin.lastBoardId = boardId;
+		this.loadViewSettings();
+
+		// Before onOpen has run there is nothing to redraw yet
+		if (!this.cy) return;
+		this.updateLegend();
+		this.onBoardsChanged();
+		this.updateStyles();
+		await this.loadGraphData();
+	}
+
+	/**
+	 * Refresh everything that shows board names after boards were renamed,
+	 * added or removed.
+	 */
+	onBoardsChanged(): void {
+		this.rebuildSettingsPanel();
+		// @ts-ignore - updateHeader is not part of the public API
+		this.leaf.updateHeader?.();
+	}
+
+	/**
+	 * Refresh the saved query dropdown after queries were saved or edited.
+	 */
+	onSavedQueriesChanged(): void {
+		this.rebuildSettingsPanel();
+	}
+
+	/**
+	 * Replace the board's query, e.g. when a saved query is applied.
+	 */
+	applyQuery(query: string): void {
+		const board = this.getBoard();
+		if (!board) return;
+		board.query = query;
+		this.saveViewSettingsDebounced();
+		this.plugin.rememberQuery(query);
+		// Rebuild so the search box and dropdown show the new query
+		this.rebuildSettingsPanel();
+		this.loadGraphData();
+	}
+
+	private rebuildSettingsPanel(): void {
+		if (this.settingsPanel) {
+			this.settingsPanel.empty();
+			this.buildSettingsPanel();
+		}
+	}
+
 	async onOpen(): Promise<void> {
+		if (!this.plugin.getBoard(this.boardId)) {
+			this.boardId = this.plugin.lastBoardId;
+		}
+
 		// Load saved view settings first
-		await this.loadViewSettings();
+		this.loadViewSettings();
 
 		const container = this.containerEl.children[1];
 		container.empty();
@@ -164,10 +570,41 @@ export class SupergraphView extends ItemView {
 			this.toggleSettings(),
 		);
 
+		// Community names, kept above their clusters
+		this.clusterLabelsEl = wrapper.createDiv({
+			cls: "supergraph-cluster-labels",
+		});
+
+		// Ends and hops of the path being traced
+		this.pathPanelEl = wrapper.createDiv({ cls: "supergraph-path-panel" });
+		this.pathPanelEl.hide();
+
+		// Metrics of the hovered node
+		this.tooltipEl = wrapper.createDiv({ cls: "supergraph-tooltip" });
+		this.tooltipEl.hide();
+
+		// Color group legend
+		this.legendEl = wrapper.createDiv({ cls: "supergraph-legend" });
+		this.updateLegend();
+
 		// Floating settings panel
 		this.settingsPanel = wrapper.createDiv({ cls: "supergraph-settings" });
 		this.buildSettingsPanel();
 
+		// Local mode follows whichever note is active
+		this.focusPath = this.app.workspace.getActiveFile()?.path ?? null;
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () =>
+				this.followActiveFile(),
+			),
+		);
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => this.followActiveFile()),
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("resolved", () => this.linkCreatedNotes()),
+		);
+
 		await this.initializeGraph();
 		await this.loadGraphData();
 	}
@@ -211,25 +648,175 @@ export class SupergraphView extends ItemView {
 		setIcon(closeBtn, "x");
 		closeBtn.addEventListener("click", () => this.toggleSettings());
 
+		// Board picker
+		const boardContainer = this.settingsPanel.createDiv({
+			cls: "settings-board",
+		});
+		const boardSelect = boardContainer.createEl("select", {
+			cls: "settings-board-select dropdown",
+			attr: { "aria-label": "Board" },
+		});
+		for (const board of this.plugin.boards) {
+			boardSelect.createEl("option", {
+				text: board.name,
+				value: board.id,
+			});
+		}
+		boardSelect.value = this.boardId;
+		boardSelect.addEventListener("change", () => {
+			this.setBoard(boardSelect.value);
+		});
+
 		// Search with autocomplete
 		const searchContainer = this.settingsPanel.createDiv({
 			cls: "settings-search",
 		});
-		const searchInput = searchContainer.createEl("input", {
+		const searchRow = searchContainer.createDiv({
+			cls: "settings-search-row",
+		});
+		const searchInput = searchRow.createEl("input", {
 			type: "text",
-			placeholder: "Search files... (tag:, path:, -)",
+			placeholder: "Search files... (tag:, path:, content:, [prop:value], -, OR)",
 			cls: "settings-search-input",
-			value: this.plugin.settings.fileFilter || "",
+			value: this.getBoard()?.query || "",
+		});
+		const matchCaseBtn = searchRow.createEl("button", {
+			cls: "settings-search-case clickable-icon",
+			attr: { "aria-label": "Match case" },
+		});
+		setIcon(matchCaseBtn, "case-sensitive");
+		matchCaseBtn.toggleClass("is-active", !!this.getBoard()?.matchCase);
+		const searchError = searchContainer.createDiv({
+			cls: "settings-search-error",
+		});
+		const showSearchError = (query: string): boolean => {
+			let error: QuerySyntaxError | null = null;
+			try {
+				parseQuery(query, { matchCase: !!this.getBoard()?.matchCase });
+			} catch (e) {
+				if (!(e instanceof QuerySyntaxError)) throw e;
+				error = e;
+			}
+			searchInput.toggleClass("has-error", !!error);
+			searchError.setText(
+				error ? `${error.message} (at ${error.position + 1})` : "",
+			);
+			return !!error;
+		};
+		showSearchError(searchInput.value);
+
+		// Saved queries: pick one to apply it, or save the current query
+		const savedRow = searchContainer.createDiv({
+			cls: "settings-saved-queries",
+		});
+		const savedSelect = savedRow.createEl("select", {
+			cls: "settings-saved-queries-select dropdown",
+			attr: { "aria-label": "Saved queries" },
+		});
+		savedSelect.createEl("option", { text: "Saved queries…", value: "" });
+		const savedQueries = this.plugin.settings.savedQueries.filter(
+			(saved) => saved.name,
+		);
+		for (const saved of savedQueries) {
+			savedSelect.createEl("option", {
+				text: saved.name,
+				value: saved.id,
+			});
+		}
+		const findSavedQuery = (query: string) =>
+			savedQueries.find((saved) => saved.query === query.trim());
+		savedSelect.value = findSavedQuery(searchInput.value)?.id ?? "";
+		savedSelect.addEventListener("change", () => {
+			const saved = savedQueries.find((q) => q.id === savedSelect.value);
+			if (saved) this.applyQuery(saved.query);
+		});
+
+		const saveQueryBtn = savedRow.createEl("button", {
+			cls: "clickable-icon",
+			attr: { "aria-label": "Save query" },
+		});
+		setIcon(saveQueryBtn, "bookmark-plus");
+		saveQueryBtn.addEventListener("click", () => {
+			const query = searchInput.value.trim();
+			if (!query) {
+				new Notice("Type a query to save first");
+				return;
+			}
+			const name = findSavedQuery(query)?.name ?? "";
+			new BoardNameModal(this.app, "Save query", name, (name) => {
+				this.plugin.saveQuery(name, query);
+			}).open();
 		});
+
 		searchInput.addEventListener("input", (e) => {
-			this.plugin.settings.fileFilter = (
-				e.target as HTMLInputElement
-			).value;
+			const board = this.getBoard();
+			if (!board) return;
+			board.query = (e.target as HTMLInputElement).value;
+			savedSelect.value = findSavedQuery(board.query)?.id ?? "";
+			this.saveViewSettingsDebounced();
+			// Keep the current graph until the query is valid again
+			if (showSearchError(board.query)) return;
+			this.loadGraphData();
+		});
+		// Committed queries (Enter or leaving the box) go into the history
+		searchInput.addEventListener("change", () => {
+			if (showSearchError(searchInput.value)) return;
+			this.plugin.rememberQuery(searchInput.value);
+		});
+		matchCaseBtn.addEventListener("click", () => {
+			const board = this.getBoard();
+			if (!board) return;
+			board.matchCase = !board.matchCase;
+			matchCaseBtn.toggleClass("is-active", board.matchCase);
+			this.saveViewSettingsDebounced();
+			// Group queries follow the board's case mode too
+			this.recolorNodesDebounced();
+			if (showSearchError(board.query)) return;
 			this.loadGraphData();
 		});
 
 		// Initialize autocomplete suggestions
-		this.searchSuggest = new SearchSuggest(this.app, searchInput);
+		this.searchSuggest = new SearchSuggest(
+			this.app,
+			searchInput,
+			() => this.plugin.settings.recentQueries,
+		);
+
+		// Local graph section
+		this.createCollapsibleSection(
+			"Local graph",
+			(content) => {
+				this.createToggle(
+					content,
+					"Follow active note",
+					this.local.enabled,
+					(val) => this.setLocalGraph({ ...this.local, enabled: val }),
+				);
+				this.createSlider(
+					content,
+					"Depth",
+					1,
+					MAX_LOCAL_DEPTH,
+					1,
+					this.local.depth,
+					DEFAULT_LOCAL_GRAPH.depth,
+					(val) => this.setLocalGraph({ ...this.local, depth: val }),
+				);
+				this.createToggle(
+					content,
+					"Incoming links",
+					this.local.incoming,
+					(val) => this.setLocalGraph({ ...this.local, incoming: val }),
+				);
+				this.createToggle(
+					content,
+					"Outgoing links",
+					this.local.outgoing,
+					(val) => this.setLocalGraph({ ...this.local, outgoing: val }),
+				);
+			},
+			this.local.enabled,
+		);
 
 		// Filters section
 		this.createCollapsibleSection(
@@ -244,10 +831,79 @@ export class SupergraphView extends ItemView {
 						this.loadGraphData();
 					},
 				);
+				this.createToggle(
+					content,
+					"Tags",
+					this.plugin.settings.showTags,
+					async (val) => {
+						this.plugin.settings.showTags = val;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+					},
+				);
+				this.createToggle(
+					content,
+					"Attachments",
+					this.plugin.settings.showAttachments,
+					async (val) => {
+						this.plugin.settings.showAttachments = val;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+					},
+				);
+				this.createToggle(
+					content,
+					"Unresolved links",
+					this.plugin.settings.showUnresolved,
+					async (val) => {
+						this.plugin.settings.showUnresolved = val;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllViews();
+					},
+				);
+
+				this.createToggle(
+					content,
+					"Folders",
+					this.display.showFolders,
+					(val) => {
+						this.display.showFolders = val;
+						this.saveViewSettingsDebounced();
+						this.loadGraphData();
+					},
+				);
+
+				// Edge kinds are toggled per board
+				const edgeKinds = [
+					{ key: edgeKindKey("link"), name: "Links" },
+					{ key: edgeKindKey("embed"), name: "Embeds" },
+					...collectPropertyLinkKeys(
+						this.app,
+						this.getRelationKeys(),
+					).map((property) => ({
+						key: edgeKindKey("property", property),
+						name: `Property: ${property}`,
+					})),
+				];
+				for (const { key, name } of edgeKinds) {
+					this.createToggle(
+						content,
+						name,
+						!this.display.hiddenEdgeKinds.includes(key),
+						(val) => this.setEdgeKindHidden(key, !val),
+					);
+				}
 			},
 			false,
 		);
 
+		// Groups section
+		this.createCollapsibleSection(
+			"Groups",
+			(content) => this.buildGroupsSection(content),
+			false,
+		);
+
 		// Display section
 		this.createCollapsibleSection(
 			"Display",
@@ -262,6 +918,23 @@ export class SupergraphView extends ItemView {
 					},
 				);
 
+				this.createToggle(
+					content,
+					"Focus mode",
+					this.focusMode,
+					(val) => this.setFocusMode(val),
+				);
+
+				this.createToggle(
+					content,
+					"Hide non-neighbors",
+					this.hideNonNeighbors,
+					(val) => {
+						this.hideNonNeighbors = val;
+						this.updateHighlight();
+					},
+				);
+
 				this.createSlider(
 					content,
 					"Card width",
@@ -309,6 +982,22 @@ export class SupergraphView extends ItemView {
 					},
 				);
 
+				this.createSlider(
+					content,
+					"Node size",
+					5,
+					40,
+					1,
+					this.display.nodeSize,
+					DEFAULT_DISPLAY.nodeSize,
+					(val) => {
+						this.display.nodeSize = val;
+						this.updateStyles();
+					},
+				);
+
+				this.buildSizeSettings(content);
+
 				this.createSlider(
 					content,
 					"Link thickness",
@@ -333,87 +1022,605 @@ export class SupergraphView extends ItemView {
 			false,
 		);
 
-		// Forces section
+		// Layout section
 		this.createCollapsibleSection(
-			"Forces",
-			(content) => {
-				this.createSlider(
-					content,
-					"Center force",
-					0,
-					1,
-					0.05,
-					this.forces.centerForce,
-					DEFAULT_FORCES.centerForce,
-					(val) => {
-						this.forces.centerForce = val;
-						this.restartLayout();
-					},
-				);
+			"Layout",
+			(content) => this.buildLayoutSection(content),
+			this.layoutSettings.name !== "force",
+		);
 
-				this.createSlider(
-					content,
-					"Repel force",
-					0,
-					50,
-					1,
-					this.forces.repelForce,
-					DEFAULT_FORCES.repelForce,
-					(val) => {
-						this.forces.repelForce = val;
-						this.restartLayout();
-					},
-				);
+		// Forces section, only used by the force layout
+		if (this.layoutSettings.name === "force") {
+			this.createCollapsibleSection(
+				"Forces",
+				(content) => {
+					this.createSlider(
+						content,
+						"Center force",
+						0,
+						1,
+						0.05,
+						this.forces.centerForce,
+						DEFAULT_FORCES.centerForce,
+						(val) => {
+							this.forces.centerForce = val;
+							this.restartLayout();
+						},
+					);
 
-				this.createSlider(
-					content,
-					"Link force",
-					0,
-					2,
-					0.1,
-					this.forces.linkForce,
-					DEFAULT_FORCES.linkForce,
-					(val) => {
-						this.forces.linkForce = val;
-						this.restartLayout();
-					},
-				);
+					this.createSlider(
+						content,
+						"Repel force",
+						0,
+						50,
+						1,
+						this.forces.repelForce,
+						DEFAULT_FORCES.repelForce,
+						(val) => {
+							this.forces.repelForce = val;
+							this.restartLayout();
+						},
+					);
 
-				this.createSlider(
-					content,
-					"Link distance",
-					30,
-					300,
-					10,
-					this.forces.linkDistance,
-					DEFAULT_FORCES.linkDistance,
-					(val) => {
-						this.forces.linkDistance = val;
-						this.restartLayout();
-					},
-				);
+					this.createSlider(
+						content,
+						"Link force",
+						0,
+						2,
+						0.1,
+						this.forces.linkForce,
+						DEFAULT_FORCES.linkForce,
+						(val) => {
+							this.forces.linkForce = val;
+							this.restartLayout();
+						},
+					);
+
+					this.createSlider(
+						content,
+						"Link distance",
+						30,
+						300,
+						10,
+						this.forces.linkDistance,
+						DEFAULT_FORCES.linkDistance,
+						(val) => {
+							this.forces.linkDistance = val;
+							this.restartLayout();
+						},
+					);
+				},
+				false,
+			);
+		}
+	}
+
+	/**
+	 * "Size by" picker, plus the property to read and the scale range when
+	 * sizing by a metric.
+	 */
+	private buildSizeSettings(content: HTMLElement): void {
+		const update = (rebuild = false) => {
+			this.saveViewSettingsDebounced();
+			if (rebuild) this.rebuildSettingsPanel();
+			// Bigger nodes need more room in the force layout
+			this.updateNodeSizes()
+				.then(() => this.restartLayout())
+				.catch((e) => {
+					console.error("Supergraph: could not size nodes", e);
+				});
+		};
+
+		this.createDropdown(
+			content,
+			"Size by",
+			SIZE_METRIC_NAMES,
+			this.display.sizeBy,
+			(val) => {
+				this.display.sizeBy = val as SizeMetric;
+				update(true);
+			},
+		);
+		if (this.display.sizeBy === "uniform") return;
+
+		if (this.display.sizeBy === "property") {
+			this.createTextInput(
+				content,
+				"Size property",
+				this.display.sizeProperty,
+				"e.g. priority",
+				(val) => {
+					this.display.sizeProperty = val;
+					update();
+				},
+			);
+		}
+		// The smallest scale never exceeds the largest, so each slider pushes
+		// the other along
+		const setMinScale = this.createSlider(
+			content,
+			"Smallest scale",
+			0.5,
+			2,
+			0.1,
+			this.display.minScale,
+			DEFAULT_DISPLAY.minScale,
+			(val) => {
+				this.display.minScale = val;
+				if (this.display.maxScale < val) {
+					this.display.maxScale = val;
+					setMaxScale(val);
+				}
+				update();
+			},
+		);
+		const setMaxScale = this.createSlider(
+			content,
+			"Largest scale",
+			1,
+			5,
+			0.1,
+			this.display.maxScale,
+			DEFAULT_DISPLAY.maxScale,
+			(val) => {
+				this.display.maxScale = val;
+				if (this.display.minScale > val) {
+					this.display.minScale = val;
+					setMinScale(val);
+				}
+				update();
 			},
-			false,
 		);
 	}
 
-	private createCollapsibleSection(
-		title: string,
-		buildContent: (container: HTMLElement) => void,
-		expanded = false,
-	): void {
-		if (!this.settingsPanel) return;
+	/**
+	 * Ordered list of color groups: a color, a query and controls to move
+	 * a group up (to take priority) or remove it.
+	 */
+	private buildGroupsSection(content: HTMLElement): void {
+		this.createToggle(
+			content,
+			"Color by community",
+			this.display.colorByCommunity,
+			(val) => {
+				this.display.colorByCommunity = val;
+				this.saveViewSettingsDebounced();
+				this.updateCommunities();
+				// Back to the color groups
+				if (!val) this.recolorNodes();
+			},
+		);
 
-		const section = this.settingsPanel.createDiv({
-			cls: "settings-section",
-		});
-		const headerEl = section.createDiv({ cls: "settings-section-header" });
-		const arrow = headerEl.createSpan({ cls: "settings-section-arrow" });
-		setIcon(arrow, expanded ? "chevron-down" : "chevron-right");
-		headerEl.createSpan({ text: title });
+		this.groups.forEach((group, index) => {
+			const row = content.createDiv({ cls: "settings-group-row" });
 
-		const content = section.createDiv({ cls: "settings-section-content" });
-		if (!expanded) content.style.display = "none";
+			const colorInput = row.createEl("input", {
+				type: "color",
+				cls: "settings-group-color",
+				value: group.color,
+			});
+			colorInput.addEventListener("input", () => {
+				group.color = colorInput.value;
+				this.onGroupsChanged();
+			});
+
+			const queryInput = row.createEl("input", {
+				type: "text",
+				cls: "settings-group-query",
+				placeholder: "Query, e.g. tag:#project",
+				value: group.query,
+			});
+			const showQueryError = () => {
+				let invalid = false;
+				try {
+					parseQuery(group.query, {
+						matchCase: !!this.getBoard()?.matchCase,
+					});
+				} catch (e) {
+					if (!(e instanceof QuerySyntaxError)) throw e;
+					invalid = true;
+				}
+				queryInput.toggleClass("has-error", invalid);
+			};
+			showQueryError();
+			queryInput.addEventListener("input", () => {
+				group.query = queryInput.value;
+				showQueryError();
+				this.onGroupsChanged();
+			});
+
+			const upBtn = row.createEl("button", {
+				cls: "clickable-icon",
+				attr: { "aria-label": "Move up" },
+			});
+			setIcon(upBtn, "arrow-up");
+			upBtn.disabled = index === 0;
+			upBtn.addEventListener("click", () => {
+				[this.groups[index - 1], this.groups[index]] = [
+					this.groups[index],
+					this.groups[index - 1],
+				];
+				this.rebuildSettingsPanel();
+				this.onGroupsChanged();
+			});
+
+			const removeBtn = row.createEl("button", {
+				cls: "clickable-icon",
+				attr: { "aria-label": "Remove group" },
+			});
+			setIcon(removeBtn, "x");
+			removeBtn.addEventListener("click", () => {
+				this.groups.splice(index, 1);
+				this.rebuildSettingsPanel();
+				this.onGroupsChanged();
+			});
+		});
+
+		const addBtn = content.createEl("button", {
+			text: "New group",
+			cls: "settings-animate-btn",
+		});
+		addBtn.addEventListener("click", () => {
+			this.groups.push({
+				query: "",
+				color: GROUP_PALETTE[this.groups.length % GROUP_PALETTE.length],
+			});
+			this.rebuildSettingsPanel();
+			this.onGroupsChanged();
+		});
+	}
+
+	/**
+	 * Show or hide one edge kind ("link", "embed" or "property:<key>").
+	 */
+	private setEdgeKindHidden(key: string, hidden: boolean): void {
+		// Replace the array so DEFAULT_DISPLAY's copy is never mutated
+		const others = this.display.hiddenEdgeKinds.filter((k) => k !== key);
+		this.display.hiddenEdgeKinds = hidden ? [...others, key] : others;
+		this.saveViewSettingsDebounced();
+		this.loadGraphData();
+	}
+
+	private onGroupsChanged(): void {
+		this.saveViewSettingsDebounced();
+		this.updateLegend();
+		this.recolorNodesDebounced();
+	}
+
+	/**
+	 * Show a swatch and query for every active color group, in priority order.
+	 * When coloring by community, list the largest communities instead.
+	 */
+	private updateLegend(): void {
+		if (!this.legendEl) return;
+
+		this.legendEl.empty();
+		if (this.display.colorByCommunity) {
+			const shown = this.communities.slice(0, LEGEND_COMMUNITIES);
+			this.legendEl.toggleClass("is-hidden", shown.length === 0);
+			for (const community of shown) {
+				const item = this.legendEl.createDiv({
+					cls: "supergraph-legend-item",
+				});
+				const swatch = item.createSpan({
+					cls: "supergraph-legend-swatch",
+				});
+				swatch.style.backgroundColor = community.color;
+				item.createSpan({
+					text: `${this.getCommunityName(community)} (${community.members.length})`,
+					cls: "supergraph-legend-label",
+				});
+			}
+			const more = this.communities.length - shown.length;
+			if (more > 0) {
+				this.legendEl.createDiv({
+					text: `${more} more`,
+					cls: "supergraph-legend-item",
+				});
+			}
+			return;
+		}
+		const matchCase = !!this.getBoard()?.matchCase;
+		const groups = this.groups.filter(
+			(g) => compileColorGroups([g], matchCase).length > 0,
+		);
+		this.legendEl.toggleClass("is-hidden", groups.length === 0);
+		for (const group of groups) {
+			const item = this.legendEl.createDiv({
+				cls: "supergraph-legend-item",
+			});
+			const swatch = item.createSpan({ cls: "supergraph-legend-swatch" });
+			swatch.style.backgroundColor = group.color;
+			item.createSpan({
+				text: group.query.trim(),
+				cls: "supergraph-legend-label",
+			});
+		}
+	}
+
+	/**
+	 * Split the graph into communities when coloring by community (or clear
+	 * them), then refresh colors, legend and cluster labels. Notes,
+	 * attachments and the links between them count; tags, ghosts and folders
+	 * don't.
+	 */
+	private updateCommunities(): void {
+		if (!this.cy) return;
+
+		if (this.display.colorByCommunity) {
+			const nodes = this.cy.nodes().filter((node) => this.isFileNode(node));
+			const edges = this.cy
+				.edges()
+				.not(".tag-edge, .folder-edge, .edge-draft")
+				.map((edge) => edge.data() as GraphEdge);
+			this.communities = detectCommunities(
+				nodes.map((node) => node.id()),
+				edges,
+			);
+			this.recolorNodes();
+		} else {
+			this.communities = [];
+		}
+		this.updateLegend();
+		this.updateClusterLabels();
+	}
+
+	/**
+	 * Compute the "size by" metric and scale notes and attachments by it.
+	 * Degree and PageRank are shown in the tooltip whatever the metric.
+	 *
+	 * Graph metrics are only recomputed when `structureChanged`; otherwise
+	 * just the word counts or property values are read again.
+	 */
+	private async updateNodeSizes(structureChanged = true): Promise<void> {
+		if (!this.cy) return;
+		const cy = this.cy;
+
+		const generation = ++this.sizeGeneration;
+		const { sizeBy, sizeProperty, minScale, maxScale } = this.display;
+		if (sizeBy === "uniform") {
+			this.nodeMetrics = new Map();
+			cy.nodes("[sizeScale]").removeData("sizeScale");
+			return;
+		}
+
+		const readsFiles = sizeBy === "wordCount" || sizeBy === "property";
+		const reuse = !structureChanged && this.nodeMetrics.size > 0;
+		if (reuse && !readsFiles) return;
+
+		const nodes = cy.nodes().not(".edge-draft, .folder:parent").nodes();
+		const metrics = reuse
+			? new Map(
+					[...this.nodeMetrics].map(([id, m]) => [id, { ...m }]),
+				)
+			: computeGraphMetrics(
+					nodes.union(nodes.edgesWith(nodes)),
+					sizeBy === "betweenness",
+				);
+		const files = nodes.filter((node) => this.isFileNode(node));
+		await Promise.all(
+			files.map(async (node) => {
+				const file = this.app.vault.getAbstractFileByPath(node.id());
+				const nodeMetrics = metrics.get(node.id());
+				if (!(file instanceof TFile) || !nodeMetrics) return;
+				if (sizeBy === "wordCount") {
+					nodeMetrics.wordCount = await readWordCount(this.app, file);
+				}
+				if (sizeBy === "property") {
+					nodeMetrics.property = readNumericProperty(
+						this.app,
+						file,
+						sizeProperty,
+					);
+				}
+			}),
+		);
+		if (!this.cy || generation !== this.sizeGeneration) return;
+
+		this.nodeMetrics = metrics;
+		const values = new Map(
+			files.map((node) => [node.id(), metrics.get(node.id())?.[sizeBy]]),
+		);
+		const scales = scaleValues(values, minScale, maxScale);
+		cy.batch(() => {
+			files.forEach((node) => {
+				const scale = scales.get(node.id());
+				if (node.data("sizeScale") !== scale) node.data("sizeScale", scale);
+			});
+		});
+	}
+
+	/**
+	 * Show the hovered node's metrics next to it, the one it's sized by
+	 * first.
+	 */
+	private showMetricsTooltip(node: NodeSingular): void {
+		const metrics = this.nodeMetrics.get(node.id());
+		if (!this.tooltipEl || !metrics || !this.isFileNode(node)) return;
+
+		const rows: [SizeMetric, string, string | undefined][] = [
+			["inDegree", "In-degree", String(metrics.inDegree)],
+			["outDegree", "Out-degree", String(metrics.outDegree)],
+			["pageRank", "PageRank", metrics.pageRank.toFixed(4)],
+			["betweenness", "Betweenness", metrics.betweenness?.toFixed(4)],
+			["wordCount", "Words", metrics.wordCount?.toLocaleString()],
+			[
+				"property",
+				this.display.sizeProperty,
+				metrics.property?.toLocaleString(),
+			],
+		];
+		rows.sort(
+			(a, b) =>
+				Number(b[0] === this.display.sizeBy) -
+				Number(a[0] === this.display.sizeBy),
+		);
+
+		this.tooltipEl.empty();
+		this.tooltipEl.createDiv({
+			text: node.data("label"),
+			cls: "supergraph-tooltip-title",
+		});
+		for (const [metric, label, value] of rows) {
+			if (value === undefined) continue;
+			const row = this.tooltipEl.createDiv({
+				cls: "supergraph-tooltip-row",
+			});
+			row.toggleClass("is-active", metric === this.display.sizeBy);
+			row.createSpan({ text: label });
+			row.createSpan({ text: value, cls: "supergraph-tooltip-value" });
+		}
+
+		const bb = node.renderedBoundingBox({});
+		this.tooltipEl.style.transform = `translate(${bb.x2 + 8}px, ${bb.y1}px)`;
+		this.tooltipEl.show();
+	}
+
+	private hideMetricsTooltip(): void {
+		this.tooltipEl?.hide();
+	}
+
+	/**
+	 * A community is named after its most central note.
+	 */
+	private getCommunityName(community: Community): string {
+		return (
+			this.cy?.getElementById(community.center).data("label") ??
+			community.center
+		);
+	}
+
+	private getCommunity(id: string): Community | undefined {
+		return this.communities.find((c) => c.members.includes(id));
+	}
+
+	/**
+	 * One label per sizeable community, placed by positionClusterLabels.
+	 */
+	private updateClusterLabels(): void {
+		if (!this.clusterLabelsEl || !this.cy) return;
+		const cy = this.cy;
+
+		const container = this.clusterLabelsEl;
+		container.empty();
+		this.clusterLabels = this.communities
+			.filter((c) => c.members.length >= CLUSTER_LABEL_MIN_SIZE)
+			.map((community) => {
+				const el = container.createDiv({
+					text: this.getCommunityName(community),
+					cls: "supergraph-cluster-label",
+				});
+				el.style.setProperty("--supergraph-group-color", community.color);
+				const ids = new Set(community.members);
+				return {
+					el,
+					nodes: cy.nodes().filter((node) => ids.has(node.id())),
+				};
+			});
+		this.positionClusterLabels();
+	}
+
+	/**
+	 * Reposition the cluster labels on the next animation frame, once per
+	 * frame however many nodes moved.
+	 */
+	private schedulePositionClusterLabels(): void {
+		if (this.clusterLabels.length === 0) return;
+		if (this.clusterLabelFrame !== null) return;
+		this.clusterLabelFrame = requestAnimationFrame(() => {
+			this.clusterLabelFrame = null;
+			this.positionClusterLabels();
+		});
+	}
+
+	/**
+	 * Center each cluster label above its community's nodes.
+	 */
+	private positionClusterLabels(): void {
+		for (const { el, nodes } of this.clusterLabels) {
+			const shown = nodes.filter((node) => !node.removed());
+			if (shown.empty()) {
+				el.hide();
+				continue;
+			}
+			el.show();
+			const bb = shown.renderedBoundingBox({});
+			el.style.transform = `translate(${(bb.x1 + bb.x2) / 2}px, ${bb.y1}px) translate(-50%, -100%)`;
+		}
+	}
+
+	/**
+	 * Recompute the group color of every node after groups or communities
+	 * changed.
+	 */
+	private async recolorNodes(): Promise<void> {
+		if (!this.cy) return;
+
+		const generation = ++this.recolorGeneration;
+		if (this.display.colorByCommunity) {
+			// Community colors take the place of the groups
+			const colors = new Map<string, string>();
+			for (const community of this.communities) {
+				for (const id of community.members) {
+					colors.set(id, community.color);
+				}
+			}
+			this.cy.batch(() => {
+				this.cy
+					?.nodes()
+					.not(".edge-draft")
+					.forEach((node) =>
+						this.setGroupColor(node, colors.get(node.id()) ?? null),
+					);
+			});
+			return;
+		}
+		const groups = compileColorGroups(
+			this.groups,
+			!!this.getBoard()?.matchCase,
+		);
+		const nodes = this.cy.nodes().not(".edge-draft");
+		const colors = await Promise.all(
+			nodes.map((node) => {
+				const file = this.app.vault.getAbstractFileByPath(node.id());
+				return file instanceof TFile
+					? findGroupColor(this.app, file, groups)
+					: Promise.resolve(null);
+			}),
+		);
+		if (!this.cy || generation !== this.recolorGeneration) return;
+
+		this.cy.batch(() => {
+			nodes.forEach((node, i) => this.setGroupColor(node, colors[i]));
+		});
+	}
+
+	private setGroupColor(node: NodeSingular, color: string | null): void {
+		if ((node.data("groupColor") ?? null) === color) return;
+		if (color) {
+			node.data("groupColor", color);
+		} else {
+			node.removeData("groupColor");
+		}
+	}
+
+	private createCollapsibleSection(
+		title: string,
+		buildContent: (container: HTMLElement) => void,
+		expanded = false,
+	): void {
+		if (!this.settingsPanel) return;
+
+		const section = this.settingsPanel.createDiv({
+			cls: "settings-section",
+		});
+		const headerEl = section.createDiv({ cls: "settings-section-header" });
+		const arrow = headerEl.createSpan({ cls: "settings-section-arrow" });
+		setIcon(arrow, expanded ? "chevron-down" : "chevron-right");
+		headerEl.createSpan({ text: title });
+
+		const content = section.createDiv({ cls: "settings-section-content" });
+		if (!expanded) content.style.display = "none";
 
 		buildContent(content);
 
@@ -424,6 +1631,49 @@ export class SupergraphView extends ItemView {
 		});
 	}
 
+	private createDropdown(
+		container: HTMLElement,
+		label: string,
+		options: Record<string, string>,
+		value: string,
+		onChange: (val: string) => void,
+	): void {
+		const row = container.createDiv({ cls: "settings-row" });
+		row.createSpan({ text: label, cls: "settings-label" });
+
+		const select = row.createEl("select", {
+			cls: "settings-select dropdown",
+		});
+		for (const [key, text] of Object.entries(options)) {
+			select.createEl("option", { text, value: key });
+		}
+		select.value = value;
+		select.addEventListener("change", () => onChange(select.value));
+	}
+
+	/**
+	 * Text field committed on Enter or blur, so layouts don't rerun on
+	 * every keystroke.
+	 */
+	private createTextInput(
+		container: HTMLElement,
+		label: string,
+		value: string,
+		placeholder: string,
+		onChange: (val: string) => void,
+	): void {
+		const row = container.createDiv({ cls: "settings-row" });
+		row.createSpan({ text: label, cls: "settings-label" });
+
+		const input = row.createEl("input", {
+			type: "text",
+			cls: "settings-text-input",
+			placeholder,
+			value,
+		});
+		input.addEventListener("change", () => onChange(input.value.trim()));
+	}
+
 	private createToggle(
 		container: HTMLElement,
 		label: string,
@@ -445,6 +1695,10 @@ export class SupergraphView extends ItemView {
 		});
 	}
 
+	/**
+	 * Slider row with its value and a reset button. Returns a function that
+	 * moves the slider without calling `onChange`.
+	 */
 	private createSlider(
 		container: HTMLElement,
 		label: string,
@@ -454,7 +1708,7 @@ export class SupergraphView extends ItemView {
 		value: number,
 		defaultValue: number,
 		onChange: (val: number) => void,
-	): void {
+	): (val: number) => void {
 		const row = container.createDiv({
 			cls: "settings-row settings-row-vertical",
 		});
@@ -514,6 +1768,11 @@ export class SupergraphView extends ItemView {
 			onChange(newValue);
 			this.saveViewSettings();
 		});
+
+		return (val: number) => {
+			slider.value = String(val);
+			valueDisplay.setText(String(val));
+		};
 	}
 
 	private resetSettings(): void {
@@ -532,491 +1791,3530 @@ export class SupergraphView extends ItemView {
 		this.saveViewSettings();
 	}
 
-	private updateStyles(): void {
-		if (!this.cy) return;
-
-		this.cy
-			.style()
-			.selector("node")
-			.style({
-				width: this.display.cardWidth,
-				height: this.display.cardHeight,
-			})
-			.selector("edge")
-			.style({
-				width: this.display.linkThickness,
-				"target-arrow-shape": this.display.showArrows
-					? "triangle"
-					: "none",
-			})
-			.update();
-	}
-
-	private restartLayout(): void {
-		if (this.layout) {
-			this.layout.stop();
-		}
-		this.startForceLayout();
-	}
-
-	async onClose(): Promise<void> {
-		await this.saveGraphState();
-		if (this.layout) {
-			this.layout.stop();
-			this.layout = null;
-		}
-		if (this.cy) {
-			this.cy.destroy();
-			this.cy = null;
-		}
-	}
-
-	private async initializeGraph(): Promise<void> {
-		if (!this.graphContainer) return;
-
-		this.cy = cytoscape({
-			container: this.graphContainer,
-			style: [
-				{
-					selector: "node",
-					style: {
-						"background-color": "transparent",
-						"background-opacity": 0,
-						width: this.display.cardWidth,
-						height: this.display.cardHeight,
-						shape: "rectangle",
-						// Hide the default label since we're using HTML labels
-						label: "",
-					},
+	/**
+	 * Build the full cytoscape stylesheet from the current display settings.
+	 * Rules are order-sensitive: later blocks override earlier ones.
+	 */
+	private buildStylesheet(): cytoscape.StylesheetJson {
+		return [
+			{
+				selector: "node",
+				style: {
+					"background-color": "transparent",
+					"background-opacity": 0,
+					width: (node: NodeSingular) =>
+						this.display.cardWidth * this.getSizeScale(node),
+					height: (node: NodeSingular) =>
+						this.display.cardHeight * this.getSizeScale(node),
+					shape: "rectangle",
+					// Hide the default label since we're using HTML labels
+					label: "",
 				},
-				{
-					selector: "edge",
-					style: {
-						width: this.display.linkThickness,
-						"line-color": "var(--background-modifier-border)",
-						"target-arrow-color":
-							"var(--background-modifier-border)",
-						"target-arrow-shape": this.display.showArrows
-							? "triangle"
-							: "none",
-						"curve-style": "bezier",
-					},
+			},
+			{
+				selector: "edge",
+				style: {
+					// Mutual pairs are as thick as both links together
+					width: (edge: EdgeSingular) =>
+						this.display.linkThickness *
+						getWeightScale(
+							edge.data("pairWeight") ?? edge.data("weight"),
+						),
+					"line-color": this.getThemeColor(
+						"--background-modifier-border",
+					),
+					"target-arrow-color": this.getThemeColor(
+						"--background-modifier-border",
+					),
+					"target-arrow-shape": this.display.showArrows
+						? "triangle"
+						: "none",
+					"curve-style": "bezier",
 				},
-				{
-					selector: "edge.manual",
-					style: {
-						"line-color": "var(--interactive-accent)",
-						"target-arrow-color": "var(--interactive-accent)",
-						"line-style": "dashed",
-					},
+			},
+			{
+				selector: "edge[?bidirectional]",
+				style: {
+					"source-arrow-color": this.getThemeColor(
+						"--background-modifier-border",
+					),
+					"source-arrow-shape": this.display.showArrows
+						? "triangle"
+						: "none",
 				},
-			],
-			layout: {
-				name: "preset",
 			},
-			wheelSensitivity: 0.3,
-		});
-
-		// Register HTML node labels for card rendering
-		this.initializeNodeHtmlLabels();
-
-		// Restart simulation when dragging starts (so other nodes react)
-		this.cy.on("grab", "node", () => {
-			this.restartLayout();
-		});
-
-		// Save positions when nodes are dragged (debounced to avoid excessive saves)
-		this.cy.on("dragfree", "node", () => {
-			this.saveGraphStateDebounced();
-		});
-
-		// Open file on node tap
-		this.cy.on("tap", "node", (evt: EventObject) => {
-			const node = evt.target;
-			const fileId = node.id();
-			this.openFile(fileId);
-		});
-
-		// Save state on pan (debounced to avoid excessive saves)
-		this.cy.on("pan", () => {
-			this.saveGraphStateDebounced();
-		});
-	}
-
-	private initializeNodeHtmlLabels(): void {
-		if (!this.cy) return;
-
-		// @ts-ignore - nodeHtmlLabel extension
-		this.cy.nodeHtmlLabel([
 			{
-				query: "node",
-				halign: "center",
-				valign: "center",
-				halignBox: "center",
-				valignBox: "center",
-				tpl: (data: { id: string; label: string; snippet: string }) => {
-					const escapedLabel = this.escapeHtml(data.label);
-					const escapedSnippet = this.escapeHtml(data.snippet || "");
-					return `
-						<div class="supergraph-card" style="width: ${this.display.cardWidth}px; height: ${this.display.cardHeight}px;">
-							<div class="supergraph-card-title">${escapedLabel}</div>
-							<div class="supergraph-card-content">${escapedSnippet}</div>
-						</div>
-					`;
+				// The reverse half of a mutual pair is drawn by its partner
+				selector: "edge.mirrored",
+				style: {
+					display: "none",
+				},
+			},
+			{
+				selector: "edge.tag-edge",
+				style: {
+					"line-style": "dotted",
+					"target-arrow-shape": "none",
+					opacity: 0.6,
+				},
+			},
+			{
+				selector: "edge.unresolved-edge",
+				style: {
+					"line-style": "dashed",
+					opacity: 0.5,
+				},
+			},
+			{
+				selector: 'edge[kind = "embed"]',
+				style: {
+					"line-style": "dashed",
+					"line-dash-pattern": [2, 4],
+					"target-arrow-shape": this.display.showArrows
+						? "square"
+						: "none",
+				},
+			},
+			{
+				selector: 'edge[kind = "property"]',
+				style: {
+					"line-color": this.getThemeColor("--text-faint"),
+					"target-arrow-color": this.getThemeColor("--text-faint"),
+					"source-arrow-color": this.getThemeColor("--text-faint"),
+				},
+			},
+			{
+				selector: "edge.manual",
+				style: {
+					"line-color": this.getThemeColor("--interactive-accent"),
+					"target-arrow-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+					"line-style": "dashed",
+				},
+			},
+			{
+				selector: "edge.manual[color]",
+				style: {
+					"line-color": "data(color)",
+					"target-arrow-color": "data(color)",
+				},
+			},
+			{
+				selector: "edge[label]",
+				style: {
+					label: "data(label)",
+					"font-size": 12,
+					color: this.getThemeColor("--text-muted"),
+					"text-background-color": this.getThemeColor(
+						"--background-primary",
+					),
+					"text-background-opacity": 1,
+					"text-background-padding": "2px",
+					"text-rotation": "autorotate",
+				},
+			},
+			{
+				selector: ".edge-draft",
+				style: {
+					events: "no",
+				},
+			},
+			{
+				selector: "node.edge-draft",
+				style: {
+					width: 1,
+					height: 1,
+				},
+			},
+			{
+				selector: "edge.edge-draft",
+				style: {
+					"line-color": this.getThemeColor("--interactive-accent"),
+					"target-arrow-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+					"line-style": "dashed",
+				},
+			},
+			// Level of detail: title-only pills and plain dots when zoomed out
+			{
+				selector: "node.lod-title",
+				style: {
+					height: (node: NodeSingular) =>
+						LOD.TITLE_HEIGHT * this.getSizeScale(node),
+				},
+			},
+			{
+				selector: "node.tag",
+				style: {
+					width: (node: NodeSingular) =>
+						this.getTagWidth(node.data("label")),
+					height: LOD.TAG_HEIGHT,
+				},
+			},
+			{
+				selector: "node.unresolved",
+				style: {
+					height: LOD.TITLE_HEIGHT,
+				},
+			},
+			{
+				selector: "node.lod-dot",
+				style: {
+					shape: "ellipse",
+					"background-color": this.getThemeColor("--text-muted"),
+					"background-opacity": 1,
+					width: (node: NodeSingular) => this.getDotSize(node),
+					height: (node: NodeSingular) => this.getDotSize(node),
+				},
+			},
+			{
+				selector: "node.lod-dot:selected",
+				style: {
+					"border-width": 3,
+					"border-color": this.getThemeColor("--interactive-accent"),
+				},
+			},
+			{
+				selector: "node.lod-dot[?pinned]",
+				style: {
+					shape: "round-diamond",
+				},
+			},
+			{
+				selector: "node.lod-dot[groupColor]",
+				style: {
+					"background-color": "data(groupColor)",
+				},
+			},
+			{
+				selector: "node.lod-dot.unresolved",
+				style: {
+					"background-opacity": 0.4,
+				},
+			},
+			{
+				selector: "node.lod-dot.tag",
+				style: {
+					"background-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+				},
+			},
+			// Folders: a labeled box around their notes, or a summary pill
+			{
+				selector: "node.folder",
+				style: {
+					height: LOD.TITLE_HEIGHT,
+				},
+			},
+			{
+				selector: "node.lod-dot.folder",
+				style: {
+					shape: "round-rectangle",
+					"background-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+				},
+			},
+			{
+				selector: "node.folder:parent",
+				style: {
+					shape: "round-rectangle",
+					"background-color": this.getThemeColor(
+						"--background-secondary",
+					),
+					"background-opacity": 0.5,
+					"border-width": 1,
+					"border-style": "dashed",
+					"border-color": this.getThemeColor(
+						"--background-modifier-border",
+					),
+					padding: `${LAYOUT_GAP}px`,
+					label: "data(label)",
+					"text-valign": "top",
+					"text-halign": "center",
+					"text-margin-y": -4,
+					"font-size": 14,
+					color: this.getThemeColor("--text-muted"),
+				},
+			},
+			{
+				selector: "edge.folder-edge",
+				style: {
+					"line-style": "dashed",
+				},
+			},
+			// Find path and neighborhoods: the highlight stands out and
+			// everything else fades
+			{
+				selector: "node.dimmed",
+				style: {
+					opacity: 0.15,
+				},
+			},
+			{
+				selector: "node.hidden",
+				style: {
+					display: "none",
+				},
+			},
+			{
+				selector: "edge.dimmed",
+				style: {
+					opacity: 0.1,
+				},
+			},
+			{
+				selector: "edge.highlighted",
+				style: {
+					"line-color": this.getThemeColor("--interactive-accent"),
+					"target-arrow-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+					"source-arrow-color": this.getThemeColor(
+						"--interactive-accent",
+					),
+					"z-index": 10,
+				},
+			},
+			{
+				selector: "node.lod-dot.highlighted",
+				style: {
+					"border-width": 3,
+					"border-color": this.getThemeColor("--interactive-accent"),
+				},
+			},
+		];
+	}
+
+	private updateStyles(): void {
+		if (!this.cy) return;
+
+		this.cy.style(this.buildStylesheet());
+	}
+
+	/**
+	 * Restart the force simulation, e.g. after a force changed or while a
+	 * node is dragged. Other layouts stay put until run again.
+	 */
+	private restartLayout(): void {
+		if (this.layoutSettings.name !== "force") return;
+		if (this.layout) {
+			this.layout.stop();
+		}
+		this.startForceLayout();
+	}
+
+	async onClose(): Promise<void> {
+		await this.saveGraphState();
+		if (this.clusterLabelFrame !== null) {
+			cancelAnimationFrame(this.clusterLabelFrame);
+			this.clusterLabelFrame = null;
+		}
+		if (this.layout) {
+			this.layout.stop();
+			this.layout = null;
+		}
+		if (this.cy) {
+			this.cy.destroy();
+			this.cy = null;
+		}
+	}
+
+	private async initializeGraph(): Promise<void> {
+		if (!this.graphContainer) return;
+
+		this.cy = cytoscape({
+			container: this.graphContainer,
+			style: this.buildStylesheet(),
+			layout: {
+				name: "preset",
+			},
+			wheelSensitivity: 0.3,
+			// Shift-drag on the background draws a selection box; Alt-click
+			// toggles single nodes
+			boxSelectionEnabled: true,
+			selectionType: "single",
+		});
+
+		// Register HTML node labels for card rendering
+		this.initializeNodeHtmlLabels();
+
+		// Restart simulation when dragging starts (so other nodes react)
+		this.cy.on("grab", "node", (evt: EventObject) => {
+			if (this.isEdgeDrawGesture(evt)) return;
+			this.restartLayout();
+		});
+
+		// Save positions when nodes are dragged (debounced to avoid excessive saves)
+		this.cy.on("dragfree", "node", () => {
+			this.saveGraphStateDebounced();
+		});
+
+		// A dragged pinned node stays pinned where it was dropped; the running
+		// simulation releases it on "free" before this runs
+		this.cy.on("free", "node[?pinned]", (evt: EventObject) => {
+			this.fixPinnedPosition(evt.target);
+		});
+
+		// Selection changes are made on the tap itself, before cytoscape
+		// applies its own
+		this.cy.on("tap", "node", (evt: EventObject) => {
+			const node = evt.target;
+			if (this.pathFinder && this.isFileNode(node)) return;
+			const original = evt.originalEvent as MouseEvent | undefined;
+			// Alt-click adds the node to the selection or takes it out
+			if (original?.altKey) {
+				this.toggleSelected(node);
+				return;
+			}
+			// Cytoscape toggles the selection on Shift and Cmd/Ctrl-clicks, which
+			// open notes elsewhere here
+			if (original && (original.shiftKey || Keymap.isModifier(original, "Mod"))) {
+				this.keepSelectionForTap(node);
+			}
+		});
+
+		// Open file on node tap; tag nodes search for the tag instead. This
+		// waits for "onetap" so a double-click only pins the node.
+		this.cy.on("onetap", "node", (evt: EventObject) => {
+			const node = evt.target;
+			// While finding a path, clicks pick its ends
+			if (this.pathFinder && this.isFileNode(node)) {
+				this.setPathEnd(node.id());
+				return;
+			}
+			const original = evt.originalEvent as MouseEvent | undefined;
+			if (original?.altKey) return;
+			// In focus mode, clicks move the focus instead of opening notes
+			if (this.focusMode && !node.hasClass("folder")) {
+				this.setFocusedNode(node.id());
+				return;
+			}
+			if (node.hasClass("folder")) {
+				// A collapsed folder opens up on click
+				if (node.data("collapsed")) this.setFolderCollapsed(node, false);
+				return;
+			}
+			if (node.hasClass("tag")) {
+				this.searchTag(node.data("tag"));
+				return;
+			}
+			if (node.hasClass("unresolved")) {
+				this.showCreateNoteMenu(node, evt);
+				return;
+			}
+			const fileId = node.id();
+			this.openFile(fileId, this.getPaneType(original));
+		});
+
+		// Double-click pins or unpins a node, and folds up an open folder
+		this.cy.on("dbltap", "node", (evt: EventObject) => {
+			const node = evt.target as NodeSingular;
+			if (node.hasClass("edge-draft")) return;
+			if (node.hasClass("folder")) {
+				if (!node.data("collapsed")) this.setFolderCollapsed(node, true);
+				return;
+			}
+			this.setPinned(node, !node.data("pinned"));
+		});
+
+		// Cards are HTML, so mirror selection into data their template can see
+		this.cy.on("select unselect", "node", (evt: EventObject) => {
+			const node = evt.target as NodeSingular;
+			if (node.selected()) {
+				node.data("isSelected", true);
+			} else {
+				node.removeData("isSelected");
+			}
+			this.updateHighlightDebounced();
+		});
+
+		// Cytoscape ignores the middle button, so catch it on the container
+		this.registerDomEvent(this.graphContainer, "mousedown", (evt) => {
+			// Keep the browser from starting autoscroll
+			if (evt.button === 1) evt.preventDefault();
+		});
+		this.registerDomEvent(this.graphContainer, "auxclick", (evt) => {
+			if (evt.button !== 1) return;
+			const node = this.getNodeAtPoint(evt.clientX, evt.clientY);
+			if (node && this.isFileNode(node)) {
+				this.openFile(node.id(), "window");
+			}
+		});
+
+		this.cy.on("cxttap", "node", (evt: EventObject) => {
+			const node = evt.target as NodeSingular;
+			const selected = this.cy?.nodes(":selected");
+			if (node.selected() && selected && selected.length > 1) {
+				this.showSelectionMenu(selected, evt);
+			} else if (node.hasClass("unresolved")) {
+				this.showCreateNoteMenu(node, evt);
+			} else if (node.hasClass("folder")) {
+				this.showFolderMenu(node, evt);
+			} else if (this.isFileNode(node)) {
+				this.showNodeMenu(node, evt);
+			}
+		});
+
+		// Metrics tooltip while sizing by a metric
+		this.cy.on("mouseover", "node", (evt: EventObject) => {
+			this.showMetricsTooltip(evt.target as NodeSingular);
+		});
+		this.cy.on("mouseout", "node", () => this.hideMetricsTooltip());
+		this.cy.on("grab pan zoom", () => this.hideMetricsTooltip());
+
+		// Light up the hovered node's neighborhood
+		this.cy.on("mouseover", "node", (evt: EventObject) => {
+			const node = evt.target as NodeSingular;
+			if (node.hasClass("edge-draft") || node.isParent()) return;
+			this.hoveredNode = node.id();
+			this.updateHighlightDebounced();
+		});
+		this.cy.on("mouseout", "node", () => {
+			if (!this.hoveredNode) return;
+			this.hoveredNode = null;
+			this.updateHighlightDebounced();
+		});
+
+		// Page preview on hover (with the modifier set in the Page preview settings)
+		this.cy.on("mouseover", "node", (evt: EventObject) => {
+			const node = evt.target as NodeSingular;
+			if (!this.isFileNode(node) || !this.graphContainer) return;
+			this.app.workspace.trigger("hover-link", {
+				event: evt.originalEvent,
+				source: VIEW_TYPE_SUPERGRAPH,
+				hoverParent: this,
+				targetEl: this.graphContainer,
+				linktext: node.id(),
+				sourcePath: "",
+			});
+		});
+
+		// Save state on pan (debounced to avoid excessive saves)
+		this.cy.on("pan", () => {
+			this.saveGraphStateDebounced();
+		});
+
+		// Switch between dots, title pills and cards as the zoom changes
+		this.cy.on("zoom", () => {
+			this.updateLevelOfDetail();
+		});
+
+		// Cluster labels follow their nodes through layouts, drags, pans and
+		// zooms
+		this.cy.on("viewport position", () => {
+			this.schedulePositionClusterLabels();
+		});
+
+		// Dot colors are resolved from the theme, so refresh them on theme change
+		this.registerEvent(
+			this.app.workspace.on("css-change", () => this.updateStyles()),
+		);
+
+		this.initializeManualEdges();
+	}
+
+	/**
+	 * Shift+drag from a card draws a manual edge to the card the pointer is
+	 * released over. Right-clicking a manual edge opens its context menu.
+	 */
+	private initializeManualEdges(): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+
+		cy.on("tapstart", "node", (evt: EventObject) => {
+			if (!this.isEdgeDrawGesture(evt)) return;
+			const source = evt.target as NodeSingular;
+
+			// Keep cytoscape from moving the card or starting a box selection
+			source.ungrabify();
+			cy.boxSelectionEnabled(false);
+
+			// Preview edge follows a hidden handle node under the pointer
+			cy.add([
+				{
+					group: "nodes",
+					data: { id: DRAFT_HANDLE_ID, draft: true },
+					position: { ...evt.position },
+					classes: "edge-draft",
+				},
+				{
+					group: "edges",
+					data: {
+						id: DRAFT_EDGE_ID,
+						source: source.id(),
+						target: DRAFT_HANDLE_ID,
+					},
+					classes: "edge-draft",
 				},
+			]);
+			this.edgeDraftSource = source;
+		});
+
+		cy.on("tapdrag", (evt: EventObject) => {
+			if (!this.edgeDraftSource) return;
+			cy.getElementById(DRAFT_HANDLE_ID).position({ ...evt.position });
+		});
+
+		cy.on("tapend", (evt: EventObject) => {
+			const source = this.edgeDraftSource;
+			if (!source) return;
+			this.edgeDraftSource = null;
+
+			cy.remove(cy.elements(".edge-draft"));
+			source.grabify();
+			cy.boxSelectionEnabled(true);
+
+			// The draft elements ignore events, so the target is the card under the pointer
+			const target = evt.target;
+			if (
+				target !== cy &&
+				target.isNode() &&
+				this.canHaveManualEdges(target) &&
+				target.id() !== source.id()
+			) {
+				this.addManualEdge(source.id(), target.id());
+			}
+		});
+
+		cy.on("cxttap", "edge.manual", (evt: EventObject) => {
+			if (!this.plugin.settings.enableManualEdges) return;
+			const edge = evt.target as EdgeSingular;
+			const menu = new Menu();
+			const currentRelation: string | undefined = edge.data("relation");
+			if (currentRelation) {
+				// Frontmatter edges are typed by relation instead of a free label
+				for (const relation of this.plugin.settings.relationTypes) {
+					if (!relation.key) continue;
+					menu.addItem((item) =>
+						item
+							.setTitle(`Relation: ${relation.name || relation.key}`)
+							.setChecked(relation.key === currentRelation)
+							.onClick(() =>
+								this.setEdgeRelation(edge, relation.key),
+							),
+					);
+				}
+				menu.addSeparator();
+			} else {
+				menu.addItem((item) =>
+					item
+						.setTitle("Edit label and color")
+						.setIcon("pencil")
+						.onClick(() => this.editManualEdge(edge)),
+				);
+				menu.addItem((item) =>
+					item
+						.setTitle("Save to note frontmatter")
+						.setIcon("file-input")
+						.onClick(() => this.moveEdgeToFrontmatter(edge)),
+				);
+			}
+			menu.addItem((item) =>
+				item
+					.setTitle("Delete edge")
+					.setIcon("trash")
+					.onClick(async () => {
+						await this.deleteManualEdge(edge);
+					}),
+			);
+			menu.showAtMouseEvent(evt.originalEvent as MouseEvent);
+		});
+	}
+
+	private isEdgeDrawGesture(evt: EventObject): boolean {
+		const original = evt.originalEvent as MouseEvent | undefined;
+		return (
+			this.plugin.settings.enableManualEdges &&
+			!!original?.shiftKey &&
+			!evt.target.hasClass("edge-draft") &&
+			this.canHaveManualEdges(evt.target)
+		);
+	}
+
+	private addManualEdge(source: string, target: string): void {
+		if (!this.cy) return;
+
+		if (this.plugin.settings.writeManualEdgesToFrontmatter) {
+			const relation = this.plugin.settings.relationTypes.find(
+				(r) => r.key,
+			);
+			if (relation) {
+				this.addFrontmatterEdge(source, target, relation.key);
+				return;
+			}
+		}
+
+		const id = `manual:${source}->${target}`;
+		if (this.cy.getElementById(id).nonempty()) return;
+
+		this.cy.add({
+			group: "edges",
+			data: { id, source, target },
+			classes: "manual",
+		});
+		this.saveGraphStateDebounced();
+	}
+
+	/**
+	 * Add a manual edge backed by a frontmatter relation in the source note.
+	 * The edge is shown immediately and rolled back if the write fails.
+	 * Returns whether the relation is in the note.
+	 */
+	private async addFrontmatterEdge(
+		source: string,
+		target: string,
+		key: string,
+	): Promise<boolean> {
+		if (!this.cy) return false;
+
+		const sourceFile = this.app.vault.getAbstractFileByPath(source);
+		const targetFile = this.app.vault.getAbstractFileByPath(target);
+		if (!(sourceFile instanceof TFile) || !(targetFile instanceof TFile)) {
+			return false;
+		}
+
+		const id = frontmatterEdgeId(key, source, target);
+		if (this.cy.getElementById(id).nonempty()) return true;
+
+		const relation = this.plugin.settings.relationTypes.find(
+			(r) => r.key === key,
+		);
+		const edge = this.cy.add({
+			group: "edges",
+			data: {
+				id,
+				source,
+				target,
+				relation: key,
+				label: relation?.name || key,
+			},
+			classes: "manual",
+		});
+
+		try {
+			await addFrontmatterRelation(this.app, sourceFile, targetFile, key);
+			return true;
+		} catch (e) {
+			edge.remove();
+			new Notice(`Supergraph: could not update ${sourceFile.basename}`);
+			return false;
+		}
+	}
+
+	private async setEdgeRelation(
+		edge: EdgeSingular,
+		key: string,
+	): Promise<void> {
+		if (edge.data("relation") === key) return;
+		await this.replaceManualEdge(edge, key);
+	}
+
+	private async moveEdgeToFrontmatter(edge: EdgeSingular): Promise<void> {
+		const relation = this.plugin.settings.relationTypes.find((r) => r.key);
+		if (!relation) {
+			new Notice("Supergraph: add a relation type in settings first");
+			return;
+		}
+		await this.replaceManualEdge(edge, relation.key);
+	}
+
+	/**
+	 * Swap a manual edge for a frontmatter relation of type `key`. The new
+	 * relation is written first, so a failed write leaves the old edge.
+	 */
+	private async replaceManualEdge(
+		edge: EdgeSingular,
+		key: string,
+	): Promise<void> {
+		const source: string = edge.data("source");
+		const target: string = edge.data("target");
+		if (!(await this.addFrontmatterEdge(source, target, key))) return;
+		await this.deleteManualEdge(edge);
+	}
+
+	private editManualEdge(edge: EdgeSingular): void {
+		new ManualEdgeModal(
+			this.app,
+			{
+				label: edge.data("label") || "",
+				color: edge.data("color") || "",
+			},
+			(details) => {
+				if (edge.removed()) return;
+				// Unset empty values so the [label]/[color] selectors stop matching
+				if (details.label) {
+					edge.data("label", details.label);
+				} else {
+					edge.removeData("label");
+				}
+				if (details.color) {
+					edge.data("color", details.color);
+				} else {
+					edge.removeData("color");
+				}
+				this.saveGraphState();
+			},
+		).open();
+	}
+
+	/**
+	 * Remove a manual edge, taking a relation out of the source note's
+	 * frontmatter first. The edge stays if the note can't be updated.
+	 */
+	private async deleteManualEdge(edge: EdgeSingular): Promise<void> {
+		const relation: string | undefined = edge.data("relation");
+		if (!relation) {
+			edge.remove();
+			await this.saveGraphState();
+			return;
+		}
+
+		const sourceFile = this.app.vault.getAbstractFileByPath(
+			edge.data("source"),
+		);
+		const targetFile = this.app.vault.getAbstractFileByPath(
+			edge.data("target"),
+		);
+		if (sourceFile instanceof TFile && targetFile instanceof TFile) {
+			try {
+				await removeFrontmatterRelation(
+					this.app,
+					sourceFile,
+					targetFile,
+					relation,
+				);
+			} catch (e) {
+				new Notice(`Supergraph: could not update ${sourceFile.basename}`);
+				return;
+			}
+		}
+		edge.remove();
+	}
+
+	private initializeNodeHtmlLabels(): void {
+		if (!this.cy) return;
+
+		// @ts-ignore - nodeHtmlLabel extension
+		this.cy.nodeHtmlLabel([
+			{
+				query: "node.lod-card[!draft][!kind]",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: {
+					id: string;
+					label: string;
+					snippet: string;
+					groupColor?: string;
+					focus?: boolean;
+					isSelected?: boolean;
+					pinned?: boolean;
+					sizeScale?: number;
+				}) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					const escapedSnippet = this.escapeHtml(data.snippet || "");
+					return `
+						<div class="${this.getCardClasses(data)}"${this.getLabelIdAttr(data.id)} style="width: ${this.display.cardWidth}px; height: ${this.display.cardHeight}px;${this.getGroupColorStyle(data.groupColor)}${this.getScaleStyle(data.sizeScale)}">
+							${this.getPinBadge(data.pinned)}
+							<div class="supergraph-card-title">${escapedLabel}</div>
+							<div class="supergraph-card-content">${escapedSnippet}</div>
+						</div>
+					`;
+				},
+			},
+			{
+				query: "node.lod-title[!draft][!kind], node.lod-title.attachment",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: {
+					id: string;
+					label: string;
+					groupColor?: string;
+					focus?: boolean;
+					isSelected?: boolean;
+					pinned?: boolean;
+					sizeScale?: number;
+				}) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					return `
+						<div class="${this.getCardClasses(data)} supergraph-card-pill"${this.getLabelIdAttr(data.id)} style="width: ${this.display.cardWidth}px; height: ${LOD.TITLE_HEIGHT}px;${this.getGroupColorStyle(data.groupColor)}${this.getScaleStyle(data.sizeScale)}">
+							${this.getPinBadge(data.pinned)}
+							<div class="supergraph-card-title">${escapedLabel}</div>
+						</div>
+					`;
+				},
+			},
+			{
+				query: "node.attachment.lod-card",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: {
+					id: string;
+					label: string;
+					snippet: string;
+					thumbnail?: string;
+					groupColor?: string;
+					focus?: boolean;
+					isSelected?: boolean;
+					pinned?: boolean;
+					sizeScale?: number;
+				}) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					// Images show a thumbnail, other files their type
+					const body = data.thumbnail
+						? `<img class="supergraph-card-thumbnail" src="${this.escapeHtml(data.thumbnail).replace(/"/g, "&quot;")}" draggable="false">`
+						: `<div class="supergraph-card-content">${this.escapeHtml(data.snippet)}</div>`;
+					return `
+						<div class="${this.getCardClasses(data)} supergraph-card-attachment"${this.getLabelIdAttr(data.id)} style="width: ${this.display.cardWidth}px; height: ${this.display.cardHeight}px;${this.getGroupColorStyle(data.groupColor)}${this.getScaleStyle(data.sizeScale)}">
+							${this.getPinBadge(data.pinned)}
+							<div class="supergraph-card-title">${escapedLabel}</div>
+							${body}
+						</div>
+					`;
+				},
+			},
+			{
+				query: "node.unresolved.lod-card, node.unresolved.lod-title",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: { id: string; label: string }) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					return `
+						<div class="supergraph-card supergraph-card-pill supergraph-card-unresolved${this.getHighlightClass(data.id)}"${this.getLabelIdAttr(data.id)} style="width: ${this.display.cardWidth}px; height: ${LOD.TITLE_HEIGHT}px;">
+							<div class="supergraph-card-title">${escapedLabel}</div>
+						</div>
+					`;
+				},
+			},
+			{
+				query: "node.folder[?collapsed].lod-card, node.folder[?collapsed].lod-title",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: {
+					id: string;
+					label: string;
+					noteCount?: number;
+				}) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					const icon = getIcon("folder-closed")?.outerHTML ?? "";
+					const count = data.noteCount ?? 0;
+					return `
+						<div class="supergraph-card supergraph-card-pill supergraph-card-folder${this.getHighlightClass(data.id)}"${this.getLabelIdAttr(data.id)} style="width: ${this.display.cardWidth}px; height: ${LOD.TITLE_HEIGHT}px;">
+							${icon}
+							<div class="supergraph-card-title">${escapedLabel}</div>
+							<div class="supergraph-card-count">${count === 1 ? "1 note" : `${count} notes`}</div>
+						</div>
+					`;
+				},
+			},
+			{
+				query: "node.tag.lod-card, node.tag.lod-title",
+				halign: "center",
+				valign: "center",
+				halignBox: "center",
+				valignBox: "center",
+				tpl: (data: { id: string; label: string }) => {
+					const escapedLabel = this.escapeHtml(data.label);
+					return `
+						<div class="supergraph-tag${this.getHighlightClass(data.id)}"${this.getLabelIdAttr(data.id)} style="width: ${this.getTagWidth(data.label)}px; height: ${LOD.TAG_HEIGHT}px;">${escapedLabel}</div>
+					`;
+				},
+			},
+		]);
+	}
+
+	private getTagWidth(label: string): number {
+		return Math.min(
+			LOD.TAG_PADDING + label.length * LOD.TAG_CHAR_WIDTH,
+			this.display.cardWidth,
+		);
+	}
+
+	private getCardClasses(data: {
+		id: string;
+		groupColor?: string;
+		focus?: boolean;
+		isSelected?: boolean;
+	}): string {
+		let classes = data.groupColor
+			? "supergraph-card has-group"
+			: "supergraph-card";
+		// The note a local graph is centered on
+		if (data.focus) classes += " is-focus";
+		if (data.isSelected) classes += " is-selected";
+		// On a traced path or next to the highlighted node, or faded out
+		return classes + this.getHighlightClass(data.id);
+	}
+
+	/**
+	 * Class of a node's HTML label for its highlight state, if any.
+	 */
+	private getHighlightClass(id: string): string {
+		const state = this.nodeHighlights.get(id);
+		return state ? ` is-${state}` : "";
+	}
+
+	/**
+	 * Marks a label's root element with its node, so the highlight can find
+	 * it without redrawing the label.
+	 */
+	private getLabelIdAttr(id: string): string {
+		return ` data-node-id="${this.escapeHtml(id).replace(/"/g, "&quot;")}"`;
+	}
+
+	/**
+	 * HTML labels on screen, by node id. Dots are drawn on the canvas, so
+	 * there are none at that level, only old ones about to be removed.
+	 */
+	private getLabelElements(): Map<string, HTMLElement> {
+		const labels = new Map<string, HTMLElement>();
+		if (this.detailLevel === "dot" || !this.graphContainer) return labels;
+		this.graphContainer
+			.querySelectorAll<HTMLElement>("[data-node-id]")
+			.forEach((el) => {
+				if (el.dataset.nodeId) labels.set(el.dataset.nodeId, el);
+			});
+		return labels;
+	}
+
+	private getPinBadge(pinned?: boolean): string {
+		if (!pinned) return "";
+		const icon = getIcon("pin")?.outerHTML ?? "";
+		return `<div class="supergraph-card-pin" aria-label="Pinned">${icon}</div>`;
+	}
+
+	/**
+	 * Cards keep their layout size and are scaled as a whole, so text
+	 * scales with them.
+	 */
+	private getScaleStyle(sizeScale?: number): string {
+		return sizeScale ? ` transform: scale(${sizeScale});` : "";
+	}
+
+	private getGroupColorStyle(groupColor?: string): string {
+		return groupColor ? ` --supergraph-group-color: ${groupColor};` : "";
+	}
+
+	private getDetailLevel(): DetailLevel {
+		const zoom = this.cy?.zoom() ?? 1;
+		if (zoom >= this.plugin.settings.minZoomForCards) return "card";
+		if (zoom >= this.plugin.settings.minZoomForTitles) return "title";
+		return "dot";
+	}
+
+	/**
+	 * Switch nodes between dots, pills and cards for the current zoom;
+	 * also called when the zoom thresholds change.
+	 */
+	updateLevelOfDetail(): void {
+		if (!this.cy) return;
+
+		const level = this.getDetailLevel();
+		if (level === this.detailLevel) return;
+		this.detailLevel = level;
+
+		const nodes = this.cy.nodes().not(".edge-draft");
+		this.cy.batch(() => {
+			nodes
+				.removeClass("lod-dot lod-title lod-card")
+				.addClass(`lod-${level}`);
+		});
+		// Dots take the highlight as classes, cards on their labels
+		this.updateHighlight();
+	}
+
+	/**
+	 * Size factor of a note when sizing by a metric; 1 otherwise.
+	 */
+	private getSizeScale(node: NodeSingular): number {
+		return node.data("sizeScale") ?? 1;
+	}
+
+	/**
+	 * Dots grow with their connections, or with the "size by" metric.
+	 */
+	private getDotSize(node: NodeSingular): number {
+		const sizeScale = node.data("sizeScale");
+		if (sizeScale !== undefined) {
+			return this.display.nodeSize * LOD.DOT_BASE_SCALE * sizeScale;
+		}
+		const scale = Math.min(
+			LOD.DOT_BASE_SCALE + Math.sqrt(node.degree(false)),
+			LOD.DOT_MAX_SCALE,
+		);
+		return this.display.nodeSize * scale;
+	}
+
+	/**
+	 * Resolve a theme CSS variable, since cytoscape draws on a canvas and
+	 * cannot evaluate `var(...)` itself.
+	 */
+	private getThemeColor(variable: string): string {
+		const target = this.graphContainer ?? document.body;
+		const value = getComputedStyle(target).getPropertyValue(variable);
+		return value.trim() || "#888888";
+	}
+
+	private escapeHtml(text: string): string {
+		const div = document.createElement("div");
+		div.textContent = text;
+		return div.innerHTML;
+	}
+
+	private async loadGraphData(): Promise<void> {
+		const generation = ++this.loadGeneration;
+
+		// Refresh autocomplete suggestions when graph data reloads
+		this.searchSuggest?.refreshSuggestionData();
+
+		// Notes, then attachments (images, PDFs, canvases, ...) when enabled;
+		// async to load content snippets
+		const files = [
+			...this.app.vault.getMarkdownFiles(),
+			...(this.plugin.settings.showAttachments
+				? this.app.vault
+						.getFiles()
+						.filter((file) => file.extension !== "md")
+				: []),
+		];
+		const groups = this.getFileNodeGroups();
+		const fileNodes = await Promise.all(
+			files.map((file) => this.loadFileNode(file, groups)),
+		);
+		if (generation !== this.loadGeneration) return;
+		this.fileNodes = new Map();
+		for (const node of fileNodes) {
+			if (node) this.fileNodes.set(node.id, node);
+		}
+		await this.buildGraph(generation);
+	}
+
+	/**
+	 * Color groups file nodes are colored by when loaded; community colors
+	 * are applied once the graph is drawn instead.
+	 */
+	private getFileNodeGroups(): CompiledColorGroup[] {
+		if (this.display.colorByCommunity) return [];
+		return compileColorGroups(this.groups, !!this.getBoard()?.matchCase);
+	}
+
+	/**
+	 * Read the node for a note or attachment, colored by the first matching
+	 * color group. Null when the board's filters leave the file out.
+	 */
+	private async loadFileNode(
+		file: TFile,
+		groups: CompiledColorGroup[],
+	): Promise<GraphNode | null> {
+		if (!(await this.shouldIncludeFile(file))) return null;
+		const node =
+			file.extension === "md"
+				? await this.createNodeFromFile(file)
+				: buildAttachmentNode(this.app, file);
+		if (groups.length > 0) {
+			const color = await findGroupColor(this.app, file, groups);
+			if (color) node.groupColor = color;
+		}
+		return node;
+	}
+
+	/**
+	 * Build tags, edges, ghost nodes, saved positions and folders around the
+	 * loaded file nodes, and draw the result.
+	 */
+	private async buildGraph(generation: number): Promise<void> {
+		const files = this.app.vault.getMarkdownFiles();
+		// Copies, as saved positions and folders are filled in below
+		const nodes: GraphNode[] = [...this.fileNodes.values()].map(
+			(node) => ({ ...node }),
+		);
+		const edges: GraphEdge[] = [];
+
+		// Tag hubs for the tags used by the included notes
+		if (this.plugin.settings.showTags) {
+			const tagGraph = buildTagGraph(
+				this.app,
+				files.filter((file) => this.fileNodes.has(file.path)),
+			);
+			nodes.push(...tagGraph.nodes);
+			edges.push(...tagGraph.edges);
+		}
+
+		// Create edges from links and frontmatter relations
+		this.edgeSignatures.clear();
+		for (const file of files) {
+			const outgoing = this.buildOutgoingEdges(file);
+			edges.push(...outgoing);
+			if (this.display.showFolders) {
+				this.edgeSignatures.set(
+					file.path,
+					this.getEdgeSignature(file, outgoing),
+				);
+			}
+		}
+
+		// Ghost nodes for missing notes linked from the included notes
+		const includedPaths = new Set(nodes.map((node) => node.id));
+		const unresolved = new Map<string, GraphNode>();
+		for (const edge of edges) {
+			if (!edge.linkpath || !includedPaths.has(edge.source)) continue;
+			if (!unresolved.has(edge.target)) {
+				unresolved.set(edge.target, buildUnresolvedNode(edge.linkpath));
+			}
+		}
+		nodes.push(...unresolved.values());
+
+		// Load saved state
+		const savedState = await this.loadGraphState();
+		if (generation !== this.loadGeneration) return;
+
+		// Merge positions from saved state; local graphs place nodes themselves
+		if (savedState) {
+			if (!this.local.enabled) {
+				nodes.forEach((node) => {
+					const savedNode = savedState.nodes.find(
+						(n) => n.id === node.id,
+					);
+					if (savedNode?.position) {
+						node.position = savedNode.position;
+					}
+					// The note's pin property wins over the saved flag
+					if (node.pinned === undefined && savedNode?.pinned) {
+						node.pinned = true;
+					}
+				});
+			}
+
+			// Add manual edges (frontmatter-backed ones were read from the notes above)
+			savedState.edges.forEach((edge) => {
+				if (
+					edge.isManual &&
+					!edge.relation &&
+					!edges.find((e) => e.id === edge.id)
+				) {
+					edges.push(edge);
+				}
+			});
+		}
+
+		// Wrap notes in their folders, folding collapsed folders away
+		this.collapsedFolders = new Set(savedState?.collapsedFolders ?? []);
+		this.collapsedMembers = new Set();
+		let shownNodes = nodes;
+		let shownEdges = edgesBetween(nodes, edges);
+		if (this.display.showFolders) {
+			const grouping = groupByFolder(nodes, edges, this.collapsedFolders);
+			shownNodes = grouping.nodes;
+			shownEdges = grouping.edges;
+			this.collapsedMembers = grouping.hidden;
+			if (savedState && !this.local.enabled) {
+				// Collapsed folders keep their summary node's place
+				shownNodes.forEach((node) => {
+					if (node.kind !== "folder") return;
+					node.position = savedState.nodes.find(
+						(n) => n.id === node.id,
+					)?.position;
+				});
+			}
+		}
+
+		if (this.local.enabled) {
+			this.renderLocalGraph(shownNodes, shownEdges);
+		} else {
+			this.renderGraph(shownNodes, shownEdges, savedState);
+		}
+		this.updateCommunities();
+		// Scaled nodes take more room, so the layout the render started is
+		// restarted with their sizes; local graphs keep their positions
+		this.updateNodeSizes()
+			.then(() => {
+				if (generation !== this.loadGeneration || this.local.enabled) return;
+				if (this.display.sizeBy !== "uniform") this.restartLayout();
+			})
+			.catch((e) => {
+				console.error("Supergraph: could not size nodes", e);
+			});
+		if (this.pathFinder) {
+			this.findPaths();
+		} else {
+			this.updateHighlight();
+		}
+	}
+
+	/**
+	 * Build the non-overlay edges originating from a file: links, embeds and
+	 * frontmatter link properties (when enabled and not hidden on this
+	 * board) and manual edges stored as frontmatter relations.
+	 */
+	private buildOutgoingEdges(file: TFile): GraphEdge[] {
+		const edges: GraphEdge[] = [];
+
+		if (this.plugin.settings.showLinks) {
+			edges.push(
+				...buildLinkEdges(this.app, file, {
+					hiddenKinds: new Set(this.display.hiddenEdgeKinds),
+					showUnresolved: this.plugin.settings.showUnresolved,
+					relationKeys: this.getRelationKeys(),
+				}),
+			);
+		}
+
+		// Manual edges stored as frontmatter relations live in the notes themselves
+		edges.push(
+			...readFrontmatterEdges(
+				this.app,
+				file,
+				this.plugin.settings.relationTypes,
+			),
+		);
+
+		return edges;
+	}
+
+	/**
+	 * Ids and weights of a note's outgoing and tag edges, in a form that can
+	 * be compared between builds.
+	 */
+	private getEdgeSignature(
+		file: TFile,
+		outgoing = this.buildOutgoingEdges(file),
+	): string {
+		const edges = this.plugin.settings.showTags
+			? [...outgoing, ...buildNoteTagEdges(this.app, file)]
+			: outgoing;
+		return edges
+			.map((edge) => `${edge.id} ${edge.weight ?? 1}`)
+			.sort()
+			.join("\n");
+	}
+
+	/**
+	 * Determine if a file should be included in the graph.
+	 * Approximates Obsidian Graph View filter behavior:
+	 * - Matches against file path, aliases, and tags
+	 * - Case-insensitive substring matching
+	 * - Supports tag:, path:, file:, content:, line:, section: and negation (-) prefixes
+	 * - Supports [property:value] filters on frontmatter
+	 * - Space-separated terms use AND logic, with OR, grouping and quotes
+	 * File contents are only read when the query has content operators.
+	 * Attachments are only included when their Filters toggle is on.
+	 */
+	private async shouldIncludeFile(file: TFile): Promise<boolean> {
+		if (!this.plugin.settings.showAllFiles) {
+			return false;
+		}
+		const isNote = file.extension === "md";
+		if (!isNote && !this.plugin.settings.showAttachments) {
+			return false;
+		}
+		// The plugin's own layout file is data, not an attachment
+		if (file.path === this.plugin.settings.layoutFilePath) {
+			return false;
+		}
+
+		// Parse and match using Graph View-style query syntax.
+		// Attachments are matched on their path only, never read.
+		const query = this.getParsedQuery();
+		const content =
+			isNote && queryNeedsContent(query)
+				? await this.app.vault.cachedRead(file)
+				: undefined;
+		return matchesQuery(file, query, this.app, content);
+	}
+
+	/**
+	 * Parse the board's query once per change rather than once per file.
+	 * While the query has a syntax error, the last valid query stays in effect.
+	 */
+	private getParsedQuery(): QueryNode | null {
+		const board = this.getBoard();
+		const source = (board?.query ?? "").trim();
+		const matchCase = board?.matchCase ?? false;
+		if (
+			source !== this.parsedQuery.source ||
+			matchCase !== this.parsedQuery.matchCase
+		) {
+			try {
+				this.parsedQuery = {
+					source,
+					matchCase,
+					query: parseQuery(source, { matchCase }),
+				};
+			} catch (e) {
+				if (!(e instanceof QuerySyntaxError)) throw e;
+				this.parsedQuery = {
+					source,
+					matchCase,
+					query: this.parsedQuery.query,
+				};
+			}
+		}
+		return this.parsedQuery.query;
+	}
+
+	private async createNodeFromFile(file: TFile): Promise<GraphNode> {
+		let snippet = "";
+		try {
+			// First, check for description in frontmatter
+			const cache = this.app.metadataCache.getFileCache(file);
+			const description = cache?.frontmatter?.description;
+
+			if (description && typeof description === "string") {
+				snippet = description.slice(0, this.display.snippetLength);
+				if (description.length > this.display.snippetLength) {
+					snippet += "...";
+				}
+			} else {
+				// Fall back to content snippet
+				const content = await this.app.vault.cachedRead(file);
+				// Remove frontmatter if present
+				let cleanContent = content;
+				if (cleanContent.startsWith("---")) {
+					const endIndex = cleanContent.indexOf("---", 3);
+					if (endIndex !== -1) {
+						cleanContent = cleanContent.slice(endIndex + 3).trim();
+					}
+				}
+				// Remove headings, links, and formatting for cleaner preview
+				cleanContent = cleanContent
+					.replace(/^#+\s+/gm, "") // Remove headings
+					.replace(/\[\[([^\]|]+)(\|[^\]]+)?\]\]/g, "$1") // Convert [[link]] to text
+					.replace(/\[([^\]]+)\]\([^)]+\)/g, "$1") // Convert [text](url) to text
+					.replace(/[*_~`]/g, "") // Remove formatting
+					.replace(/\n+/g, " ") // Replace newlines with spaces
+					.trim();
+				snippet = cleanContent.slice(0, this.display.snippetLength);
+				if (cleanContent.length > this.display.snippetLength) {
+					snippet += "...";
+				}
+			}
+		} catch (e) {
+			// Ignore read errors, leave snippet empty
+		}
+		return {
+			id: file.path,
+			label: file.basename,
+			snippet,
+			pinned: this.readPinProperty(file),
+		};
+	}
+
+	/**
+	 * The note's pin property: true pins, false unpins, anything else leaves
+	 * the node as it is.
+	 */
+	private readPinProperty(file: TFile): boolean | undefined {
+		const key = this.plugin.settings.pinProperty;
+		if (!key) return undefined;
+		const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+		return typeof value === "boolean" ? value : undefined;
+	}
+
+	private renderGraph(
+		nodes: GraphNode[],
+		edges: GraphEdge[],
+		savedState: GraphState | null,
+	): void {
+		if (!this.cy) return;
+
+		// Check if all nodes have saved positions
+		const allNodesHavePositions =
+			nodes.length > 0 && nodes.every((n) => n.position);
+
+		// Get center of the viewport for initial positioning
+		const containerWidth =
+			this.graphContainer?.clientWidth || PHYSICS.DEFAULT_WIDTH;
+		const containerHeight =
+			this.graphContainer?.clientHeight || PHYSICS.DEFAULT_HEIGHT;
+		const centerX = containerWidth / 2;
+		const centerY = containerHeight / 2;
+
+		this.replaceElements(
+			nodes.map((node) => {
+				// If we have saved position, use it. Otherwise start from center with slight random offset
+				let position = node.position;
+				if (!position) {
+					// Small random offset from center for initial "explosion" effect
+					position = {
+						x:
+							centerX +
+							(Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
+						y:
+							centerY +
+							(Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
+					};
+				}
+				return { ...node, position };
+			}),
+			edges,
+		);
+
+		if (allNodesHavePositions && savedState?.zoom && savedState?.pan) {
+			// Restore saved viewport
+			this.cy.viewport({
+				zoom: savedState.zoom,
+				pan: savedState.pan,
+			});
+		} else {
+			// Fit to show all nodes initially
+			this.cy.fit(undefined, PHYSICS.FIT_PADDING);
+		}
+
+		// Run the chosen layout (continuously, for the force layout)
+		this.runLayout();
+	}
+
+	/**
+	 * Swap the graph's elements for `nodes` (all positioned) and `edges`.
+	 */
+	private replaceElements(nodes: GraphNode[], edges: GraphEdge[]): void {
+		if (!this.cy) return;
+
+		const elements = [
+			...nodes.map((node) => ({
+				data: this.getNodeData(node),
+				position: node.position,
+				classes: this.getNodeClasses(node),
+				// Bulk actions only apply to files
+				selectable: node.kind !== "folder",
+			})),
+			...edges.map((edge) => ({
+				data: this.getEdgeData(edge),
+				classes: this.getEdgeClasses(edge),
+			})),
+		];
+
+		this.cy.elements().remove();
+		this.cy.add(elements);
+		this.updateMutualEdges();
+
+		// Enable dragging on all nodes after they are added
+		this.cy.nodes().forEach((node) => {
+			node.grabify();
+		});
+	}
+
+	/**
+	 * Bring the graph in line with `nodes` and `edges`, touching only what
+	 * differs: missing elements are added, extra ones removed and changed
+	 * data updated, so cards that stay aren't redrawn. Nodes already shown
+	 * keep their positions.
+	 */
+	private syncElements(nodes: GraphNode[], edges: GraphEdge[]): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+		const nodeIds = new Set(nodes.map((node) => node.id));
+		const edgeIds = new Set(edges.map((edge) => edge.id));
+
+		const fixedKeys = new Set(["id", "source", "target", "parent"]);
+		const updateData = (
+			ele: cytoscape.SingularElementArgument,
+			data: Record<string, unknown>,
+		) => {
+			for (const [key, value] of Object.entries(data)) {
+				// Ids and ends are fixed; parents change through move()
+				if (fixedKeys.has(key) || ele.data(key) === value) continue;
+				if (value === undefined) {
+					ele.removeData(key);
+				} else {
+					ele.data(key, value);
+				}
+			}
+		};
+
+		cy.batch(() => {
+			// Parents come before their children, so they exist to move into
+			const added: NodeSingular[] = [];
+			for (const node of nodes) {
+				const existing = cy.getElementById(node.id);
+				if (existing.empty()) {
+					added.push(
+						cy.add({
+							group: "nodes",
+							data: this.getNodeData(node),
+							position: node.position,
+							classes: this.getNodeClasses(node),
+							// Bulk actions only apply to files
+							selectable: node.kind !== "folder",
+						}),
+					);
+					continue;
+				}
+				updateData(existing, this.getNodeData(node));
+				const parent = node.parent ?? null;
+				if ((existing.data("parent") ?? null) !== parent) {
+					(existing as NodeSingular).move({ parent });
+				}
+			}
+			cy.nodes()
+				.not(".edge-draft")
+				.filter((node) => !nodeIds.has(node.id()))
+				.remove();
+
+			cy.edges()
+				.not(".edge-draft")
+				.filter((edge) => !edgeIds.has(edge.id()))
+				.remove();
+			for (const edge of edges) {
+				const existing = cy.getElementById(edge.id);
+				if (existing.empty()) {
+					cy.add({
+						group: "edges",
+						data: this.getEdgeData(edge),
+						classes: this.getEdgeClasses(edge),
+					});
+				} else {
+					updateData(existing, this.getEdgeData(edge));
+				}
+			}
+
+			for (const node of added) {
+				node.grabify();
+			}
+		});
+		this.updateMutualEdges();
+	}
+
+	/**
+	 * Show only the focus note's neighborhood. Nodes already on screen keep
+	 * their positions, new ones start next to a shown neighbor and are
+	 * nudged into place, and the viewport glides to the new focus.
+	 */
+	private renderLocalGraph(nodes: GraphNode[], edges: GraphEdge[]): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+
+		// Only walk edges between nodes, so the neighborhood holds no
+		// embedded attachments or notes the query leaves out
+		const graphEdges = edgesBetween(nodes, edges);
+		const focus = this.focusPath;
+		const ids =
+			focus && nodes.some((node) => node.id === focus)
+				? collectNeighborhood(focus, graphEdges, this.local)
+				: new Set<string>();
+		const localNodes = nodes.filter((node) => ids.has(node.id));
+		// Keep the folders around the shown nodes
+		const byId = new Map(nodes.map((node) => [node.id, node]));
+		for (const node of [...localNodes]) {
+			let folder = node.parent ? byId.get(node.parent) : undefined;
+			while (folder && !ids.has(folder.id)) {
+				ids.add(folder.id);
+				localNodes.push(folder);
+				folder = folder.parent ? byId.get(folder.parent) : undefined;
+			}
+		}
+		const localEdges = graphEdges.filter(
+			(edge) => ids.has(edge.source) && ids.has(edge.target),
+		);
+
+		// Nothing on screen yet: lay the neighborhood out from scratch
+		if (cy.nodes().empty()) {
+			this.renderGraph(localNodes, localEdges, null);
+			if (focus) cy.getElementById(focus).data("focus", true);
+			return;
+		}
+
+		const positions = new Map<string, NodePosition>();
+		cy.nodes().forEach((node) => {
+			positions.set(node.id(), { ...node.position() });
+		});
+		const anchor =
+			(focus && positions.get(focus)) || {
+				x: (cy.extent().x1 + cy.extent().x2) / 2,
+				y: (cy.extent().y1 + cy.extent().y2) / 2,
+			};
+		const added = new Set<string>();
+		const placed = localNodes.map((node) => {
+			const current = positions.get(node.id);
+			if (current) return { ...node, position: current };
+			added.add(node.id);
+			// Start next to a neighbor that is already on screen
+			const neighbor = localEdges
+				.map((edge) =>
+					edge.source === node.id
+						? edge.target
+						: edge.target === node.id
+							? edge.source
+							: null,
+				)
+				.find((id) => id && positions.has(id));
+			const origin = (neighbor && positions.get(neighbor)) || anchor;
+			return {
+				...node,
+				position: {
+					x: origin.x + (Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
+					y: origin.y + (Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
+				},
+			};
+		});
+
+		this.syncElements(placed, localEdges);
+		cy.nodes("[?focus]").removeData("focus");
+		if (!focus) return;
+
+		const focusNode = cy.getElementById(focus);
+		focusNode.data("focus", true);
+		cy.animate({ center: { eles: focusNode } }, { duration: 300 });
+		const addedNodes = cy.nodes().filter((node) => added.has(node.id()));
+		if (addedNodes.nonempty()) {
+			if (this.layoutSettings.name === "force") {
+				this.startForceLayout(addedNodes);
+			} else {
+				this.runLayout();
+			}
+		}
+	}
+
+	/**
+	 * Run the d3-force simulation over the whole graph.
+	 *
+	 * When `nudgeNodes` is given, every other node is locked for the duration
+	 * of a short low-energy run so only the changed nodes settle into place.
+	 */
+	private startForceLayout(nudgeNodes?: cytoscape.NodeCollection): void {
+		if (!this.cy) return;
+
+		// Stop existing layout if any
+		if (this.layout) {
+			this.layout.stop();
+		}
+		this.releaseNudgeLocks();
+		this.cy.nodes().forEach((node) => this.fixPinnedPosition(node));
+
+		const centerX =
+			(this.graphContainer?.clientWidth || PHYSICS.DEFAULT_WIDTH) / 2;
+		const centerY =
+			(this.graphContainer?.clientHeight || PHYSICS.DEFAULT_HEIGHT) / 2;
+
+		// Calculate forces from user settings and physics constants
+		const repelStrength =
+			-this.forces.repelForce * PHYSICS.REPEL_MULTIPLIER;
+		const linkDistance = Math.max(
+			this.forces.linkDistance,
+			PHYSICS.MIN_LINK_DISTANCE,
+		);
+		const linkStrength =
+			this.forces.linkForce * PHYSICS.LINK_STRENGTH_MULTIPLIER;
+		const centerStrength =
+			this.forces.centerForce * PHYSICS.CENTER_MULTIPLIER;
+		// Use the larger dimension for collision radius to prevent overlap
+		const cardDiagonal = Math.sqrt(
+			this.display.cardWidth ** 2 + this.display.cardHeight ** 2,
+		);
+		const collideRadius = cardDiagonal / 2;
+
+		let alpha = PHYSICS.ALPHA_START;
+		let alphaDecay = PHYSICS.ALPHA_DECAY;
+		let boundingBox: cytoscape.BoundingBox12 | undefined;
+		if (nudgeNodes) {
+			const frozen = this.cy
+				.nodes()
+				.difference(nudgeNodes)
+				.nodes()
+				.filter((node) => !node.locked() && !node.data("pinned"));
+			frozen.lock();
+			this.nudgeLockedNodes = frozen;
+			alpha = PHYSICS.NUDGE_ALPHA;
+			alphaDecay = PHYSICS.NUDGE_ALPHA_DECAY;
+			// d3's center force targets the middle of the bounding box; center it
+			// on the current graph so the free nodes aren't dragged across it
+			const bb = this.cy.nodes().boundingBox({});
+			boundingBox = { x1: 0, y1: 0, x2: bb.x1 + bb.x2, y2: bb.y1 + bb.y2 };
+		}
+
+		// Expanded folders follow their notes instead of being laid out
+		this.layout = this.cy.elements().not(".folder:parent").layout({
+			name: "d3-force",
+			animate: true,
+			fixedAfterDragging: false,
+			ungrabifyWhileSimulating: false,
+			fit: false,
+			boundingBox,
+			stop: () => this.releaseNudgeLocks(),
+			// @ts-ignore - d3-force specific options
+			alpha,
+			alphaMin: PHYSICS.ALPHA_MIN,
+			alphaDecay,
+			alphaTarget: PHYSICS.ALPHA_TARGET,
+			velocityDecay: PHYSICS.VELOCITY_DECAY,
+			// Collision force - prevents overlap; scaled nodes take more room
+			collideRadius: (d: { sizeScale?: number }) =>
+				collideRadius * (d.sizeScale ?? 1),
+			collideStrength: PHYSICS.COLLIDE_STRENGTH,
+			// Many-body force - repulsion between all nodes
+			manyBodyStrength: repelStrength,
+			manyBodyDistanceMin: PHYSICS.MANY_BODY_DISTANCE_MIN,
+			manyBodyDistanceMax: PHYSICS.MANY_BODY_DISTANCE_MAX,
+			// Link force - spring with minimum length
+			linkId: function (d: any) {
+				return d.id;
+			},
+			linkDistance: linkDistance,
+			// Edges standing for several links pull their notes closer
+			linkStrength: (d: GraphEdge) =>
+				linkStrength * getWeightScale(d.weight),
+			// Center force - pulls toward center
+			xStrength: centerStrength,
+			xX: centerX,
+			yStrength: centerStrength,
+			yY: centerY,
+		} as cytoscape.LayoutOptions);
+
+		this.layout.run();
+	}
+
+	private releaseNudgeLocks(): void {
+		if (!this.nudgeLockedNodes) return;
+		const locked = this.nudgeLockedNodes;
+		this.nudgeLockedNodes = null;
+		const kept = locked.filter((node) => !node.removed());
+		kept.unlock();
+		// Unlocking releases the fixed position of nodes pinned in the meantime
+		kept.filter("[?pinned]").forEach((node) => this.fixPinnedPosition(node));
+	}
+
+	/**
+	 * Offer to create the missing note behind a ghost node. The note is
+	 * created the way Obsidian does when following an unresolved link.
+	 */
+	private showCreateNoteMenu(node: NodeSingular, evt: EventObject): void {
+		const linkpath: string = node.data("linkpath");
+		const sourcePath = node.incomers("node").first().id() ?? "";
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle(`Create note "${linkpath}"`)
+				.setIcon("file-plus")
+				.onClick(() =>
+					this.app.workspace.openLinkText(linkpath, sourcePath),
+				),
+		);
+		menu.showAtMouseEvent(evt.originalEvent as MouseEvent);
+	}
+
+	/**
+	 * Context menu for a folder node.
+	 */
+	private showFolderMenu(node: NodeSingular, evt: EventObject): void {
+		const collapsed = !!node.data("collapsed");
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle(collapsed ? "Expand folder" : "Collapse folder")
+				.setIcon(collapsed ? "folder-open" : "folder-closed")
+				.onClick(() => this.setFolderCollapsed(node, !collapsed)),
+		);
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Collapse all folders")
+				.setIcon("fold-vertical")
+				.onClick(() => {
+					const paths = this.cy
+						?.nodes(".folder")
+						.map((folder) => folderPathFromId(folder.id()));
+					this.setCollapsedFolders(
+						new Set([...this.collapsedFolders, ...(paths ?? [])]),
+					);
+				}),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Expand all folders")
+				.setIcon("unfold-vertical")
+				.onClick(() => this.setCollapsedFolders(new Set())),
+		);
+		menu.showAtMouseEvent(evt.originalEvent as MouseEvent);
+	}
+
+	private setFolderCollapsed(node: NodeSingular, collapsed: boolean): void {
+		const path = folderPathFromId(node.id());
+		const paths = new Set(this.collapsedFolders);
+		if (collapsed) {
+			paths.add(path);
+		} else {
+			paths.delete(path);
+		}
+		this.setCollapsedFolders(paths);
+	}
+
+	/**
+	 * Redraw the graph with `paths` collapsed. Positions are saved first so
+	 * the notes folded away come back where they were.
+	 */
+	private async setCollapsedFolders(paths: Set<string>): Promise<void> {
+		this.collapsedFolders = paths;
+		await this.saveGraphState();
+		await this.loadGraphData();
+	}
+
+	/**
+	 * Open Obsidian's search pane for a tag.
+	 */
+	private searchTag(tag: string): void {
+		// @ts-ignore - internalPlugins is not part of the public API
+		const search = this.app.internalPlugins?.getPluginById("global-search");
+		search?.instance?.openGlobalSearch(`tag:#${tag}`);
+	}
+
+	/**
+	 * Where a click should open a note: Cmd/Ctrl-click in a new tab,
+	 * Shift-click in a split and middle-click in a new window.
+	 */
+	private getPaneType(evt: MouseEvent | undefined): PaneType | false {
+		if (!evt) return false;
+		if (evt.button === 1) return "window";
+		if (Keymap.isModifier(evt, "Mod")) return "tab";
+		if (evt.shiftKey) return "split";
+		return false;
+	}
+
+	/**
+	 * Add a node to the selection or take it out, leaving the rest of the
+	 * selection alone.
+	 */
+	private toggleSelected(node: NodeSingular): void {
+		if (!node.selectable()) return;
+		if (node.selected()) node.unselect();
+		else node.select();
+		this.keepSelectionForTap(node);
+	}
+
+	/**
+	 * Stop cytoscape from changing the selection for the tap being handled.
+	 * It selects after the tap handlers run, and skips unselectable nodes.
+	 */
+	private keepSelectionForTap(node: NodeSingular): void {
+		if (!node.selectable()) return;
+		node.unselectify();
+		setTimeout(() => node.selectify(), 0);
+	}
+
+	private async openFile(
+		filePath: string,
+		paneType: PaneType | false = false,
+	): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (file instanceof TFile) {
+			let leaf = this.app.workspace.getLeaf(paneType);
+			// Never navigate the graph itself away
+			if (leaf === this.leaf) leaf = this.app.workspace.getLeaf("tab");
+			await leaf.openFile(file);
+		}
+	}
+
+	/**
+	 * Notes and attachments, i.e. nodes backed by a file in the vault.
+	 */
+	private isFileNode(node: NodeSingular): boolean {
+		return (
+			!node.hasClass("tag") &&
+			!node.hasClass("unresolved") &&
+			!node.hasClass("folder") &&
+			!node.hasClass("edge-draft")
+		);
+	}
+
+	/**
+	 * The topmost node under a point in client coordinates, if any.
+	 */
+	private getNodeAtPoint(
+		clientX: number,
+		clientY: number,
+	): NodeSingular | null {
+		if (!this.cy || !this.graphContainer) return null;
+		const rect = this.graphContainer.getBoundingClientRect();
+		const pan = this.cy.pan();
+		const zoom = this.cy.zoom();
+		const x = (clientX - rect.left - pan.x) / zoom;
+		const y = (clientY - rect.top - pan.y) / zoom;
+		const hits = this.cy.nodes().filter((node) => {
+			const bb = node.boundingBox({});
+			return x >= bb.x1 && x <= bb.x2 && y >= bb.y1 && y <= bb.y2;
+		});
+		return hits.nonempty() ? (hits.last() as NodeSingular) : null;
+	}
+
+	/**
+	 * Context menu for a note or attachment node.
+	 */
+	private showNodeMenu(node: NodeSingular, evt: EventObject): void {
+		const file = this.app.vault.getAbstractFileByPath(node.id());
+		if (!(file instanceof TFile)) return;
+
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Open in new tab")
+				.setIcon("file-plus")
+				.onClick(() => this.openFile(file.path, "tab")),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Open to the right")
+				.setIcon("separator-vertical")
+				.onClick(() => this.openFile(file.path, "split")),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Open in new window")
+				.setIcon("picture-in-picture-2")
+				.onClick(() => this.openFile(file.path, "window")),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Show local graph")
+				.setIcon("git-fork")
+				.onClick(() => this.plugin.activateLocalView(file.path)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Find path from here")
+				.setIcon("route")
+				.onClick(() => this.startPathMode(file.path)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Focus on neighbors")
+				.setIcon("focus")
+				.onClick(() => {
+					this.setFocusMode(true, file.path);
+					this.rebuildSettingsPanel();
+				}),
+		);
+		const community = this.getCommunity(file.path);
+		if (community) {
+			const name = this.getCommunityName(community);
+			menu.addSeparator();
+			menu.addItem((item) =>
+				item
+					.setTitle(`Select cluster "${name}"`)
+					.setIcon("group")
+					.onClick(() => this.selectCommunity(community)),
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("New MOC note from cluster…")
+					.setIcon("list")
+					.onClick(() =>
+						this.promptLinkingNote(
+							community.members
+								.map((id) => this.app.vault.getAbstractFileByPath(id))
+								.filter((f): f is TFile => f instanceof TFile),
+							`${name} MOC`,
+						),
+					),
+			);
+		}
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle(node.data("pinned") ? "Unpin position" : "Pin position")
+				.setIcon(node.data("pinned") ? "pin-off" : "pin")
+				.onClick(() => this.setPinned(node, !node.data("pinned"))),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Copy link")
+				.setIcon("link")
+				.onClick(() => this.copyLink(file)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Reveal in file explorer")
+				.setIcon("folder-open")
+				.onClick(() => this.revealInExplorer(file)),
+		);
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Rename")
+				.setIcon("pencil")
+				.onClick(() => this.renameFile(file)),
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Delete")
+				.setIcon("trash")
+				.onClick(() => this.confirmDelete(file)),
+		);
+		// Let other plugins add their file actions
+		this.app.workspace.trigger("file-menu", menu, file, "supergraph");
+		menu.showAtMouseEvent(evt.originalEvent as MouseEvent);
+	}
+
+	/**
+	 * Move a file to the trash, asking first unless "Confirm file deletion"
+	 * is turned off in Obsidian's settings.
+	 */
+	private confirmDelete(file: TFile): void {
+		// @ts-ignore - getConfig is not part of the public API
+		const prompt = this.app.vault.getConfig?.("promptDelete") ?? true;
+		if (!prompt) {
+			this.app.fileManager.trashFile(file);
+			return;
+		}
+		new ConfirmModal(
+			this.app,
+			"Delete file",
+			`Are you sure you want to delete "${file.name}"?`,
+			"Delete",
+			() => this.app.fileManager.trashFile(file),
+		).open();
+	}
+
+	/**
+	 * Context menu for a multi-node selection. File actions apply to the
+	 * selected notes and attachments; tag and ghost nodes are skipped.
+	 */
+	private showSelectionMenu(
+		nodes: cytoscape.NodeCollection,
+		evt: EventObject,
+	): void {
+		const files = nodes
+			.map((node) => this.app.vault.getAbstractFileByPath(node.id()))
+			.filter((file): file is TFile => file instanceof TFile);
+		const allPinned = nodes.every((node) => !!node.data("pinned"));
+
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item.setTitle(`${nodes.length} nodes selected`).setDisabled(true),
+		);
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle(allPinned ? "Unpin positions" : "Pin positions")
+				.setIcon(allPinned ? "pin-off" : "pin")
+				.onClick(() => {
+					nodes.forEach((node) => this.setPinned(node, !allPinned));
+				}),
+		);
+		const arrangements = [
+			{
+				title: "Align in a row",
+				icon: "align-center-horizontal",
+				arrange: alignPositions,
+				axis: "y",
+			},
+			{
+				title: "Align in a column",
+				icon: "align-center-vertical",
+				arrange: alignPositions,
+				axis: "x",
+			},
+			{
+				title: "Distribute horizontally",
+				icon: "align-horizontal-space-between",
+				arrange: distributePositions,
+				axis: "x",
+			},
+			{
+				title: "Distribute vertically",
+				icon: "align-vertical-space-between",
+				arrange: distributePositions,
+				axis: "y",
+			},
+		] as const;
+		for (const { title, icon, arrange, axis } of arrangements) {
+			menu.addItem((item) =>
+				item
+					.setTitle(title)
+					.setIcon(icon)
+					.onClick(() => this.arrangeNodes(nodes, arrange, axis)),
+			);
+		}
+
+		if (files.length > 0) {
+			menu.addSeparator();
+			menu.addItem((item) =>
+				item
+					.setTitle("Open all")
+					.setIcon("files")
+					.onClick(async () => {
+						for (const file of files) {
+							await this.openFile(file.path, "tab");
+						}
+					}),
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Add tag…")
+					.setIcon("tag")
+					.onClick(() => {
+						new BoardNameModal(this.app, "Add tag", "", (tag) => {
+							addTagToFiles(this.app, files, tag);
+						}).open();
+					}),
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Move to folder…")
+					.setIcon("folder-input")
+					.onClick(() => {
+						new FolderSuggestModal(
+							this.app,
+							"Choose a folder to move the files to",
+							async (folder) => {
+								const skipped = await moveFilesToFolder(
+									this.app,
+									files,
+									folder,
+								);
+								if (skipped.length > 0) {
+									new Notice(
+										`${skipped.length} file(s) not moved: name already taken`,
+									);
+								}
+							},
+						).open();
+					}),
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("New note linking to all…")
+					.setIcon("file-plus")
+					.onClick(() => this.promptLinkingNote(files, "Untitled")),
+			);
+		}
+		menu.showAtMouseEvent(evt.originalEvent as MouseEvent);
+	}
+
+	/**
+	 * Enter find-path mode: clicks on notes (or the pickers in the path
+	 * panel) choose the two ends, then the shortest paths between them are
+	 * highlighted and listed.
+	 */
+	startPathMode(source?: string): void {
+		this.pathFinder = { source: source ?? null, target: null, paths: [] };
+		this.findPaths();
+	}
+
+	private exitPathMode(): void {
+		this.pathFinder = null;
+		this.updateHighlight();
+		this.renderPathPanel();
+	}
+
+	/**
+	 * Pick the source, then the target; once both are set, the next pick
+	 * starts over with a new source.
+	 */
+	private setPathEnd(id: string): void {
+		if (!this.pathFinder) return;
+		const { source, target } = this.pathFinder;
+		if (!source || target) {
+			this.pathFinder = { source: id, target: null, paths: [] };
+		} else {
+			this.pathFinder = { source, target: id, paths: [] };
+		}
+		this.findPaths();
+	}
+
+	/**
+	 * Recompute the paths on the current graph, then refresh the
+	 * highlight and the panel.
+	 */
+	private findPaths(): void {
+		if (!this.cy || !this.pathFinder) return;
+		const { source, target } = this.pathFinder;
+		const shown = (id: string | null) =>
+			!!id && !!this.cy?.getElementById(id).nonempty();
+
+		let paths: string[][] = [];
+		if (shown(source) && shown(target)) {
+			const edges = this.cy.edges().map((edge) => ({
+				...(edge.data() as GraphEdge),
+				isManual: edge.hasClass("manual"),
+			}));
+			paths = findShortestPaths(
+				edges,
+				source as string,
+				target as string,
+				this.pathOptions,
+			);
+		}
+		this.pathFinder = { ...this.pathFinder, paths };
+		this.updateHighlight();
+		this.renderPathPanel();
+	}
+
+	/**
+	 * Light up the ends and the nodes and edges on any path found, or
+	 * outside find-path mode the neighborhood of the focused, hovered or
+	 * selected node, and fade everything else. In focus mode the rest can
+	 * be hidden instead.
+	 */
+	private updateHighlight(): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+		const finder = this.pathFinder;
+
+		const highlighted = new Set<string>();
+		let isHighlightedEdge: (edge: EdgeSingular) => boolean = () => false;
+		let fade = false;
+		let hide = false;
+		if (finder) {
+			const pairs = new Set<string>();
+			if (finder.source) highlighted.add(finder.source);
+			if (finder.target) highlighted.add(finder.target);
+			for (const path of finder.paths) {
+				path.forEach((id, i) => {
+					highlighted.add(id);
+					if (i > 0) pairs.add([path[i - 1], id].sort().join("\n"));
+				});
+			}
+			// Either direction, so mutual pairs light up their drawn edge
+			isHighlightedEdge = (edge) =>
+				pairs.has(
+					[edge.data("source"), edge.data("target")].sort().join("\n"),
+				) &&
+				isPathEdge(
+					{
+						...(edge.data() as GraphEdge),
+						isManual: edge.hasClass("manual"),
+					},
+					this.pathOptions,
+				);
+			fade = finder.paths.length > 0;
+		} else {
+			const center = this.getHighlightCenter();
+			if (center) {
+				center
+					.closedNeighborhood()
+					.nodes()
+					.forEach((node) => {
+						highlighted.add(node.id());
+					});
+				const edges = center.connectedEdges();
+				isHighlightedEdge = (edge) => edges.contains(edge);
+				fade = true;
+				hide = this.focusMode && this.hideNonNeighbors;
+			}
+		}
+
+		// Folders around highlighted nodes stay, as children take on their
+		// opacity and visibility
+		const kept = new Set<string>();
+		for (const id of highlighted) {
+			cy.getElementById(id)
+				.ancestors()
+				.forEach((node) => {
+					kept.add(node.id());
+				});
+		}
+
+		const states = new Map<string, HighlightState>();
+		cy.nodes()
+			.not(".edge-draft")
+			.forEach((node) => {
+				const id = node.id();
+				if (highlighted.has(id)) {
+					states.set(id, "highlighted");
+				} else if (fade && !kept.has(id)) {
+					states.set(id, hide ? "hidden" : "dimmed");
+				}
+			});
+		this.nodeHighlights = states;
+
+		// Changing a node's data or classes redraws its HTML label, so cards
+		// and pills get their classes on the label itself. Only hiding goes
+		// through cytoscape too, so hidden nodes can't be clicked.
+		const labels = this.getLabelElements();
+		cy.batch(() => {
+			cy.nodes()
+				.not(".edge-draft")
+				.forEach((node) => {
+					const state = states.get(node.id());
+					const label = labels.get(node.id());
+					for (const name of HIGHLIGHT_STATES) {
+						label?.toggleClass(`is-${name}`, state === name);
+						if (!label || name === "hidden") {
+							node.toggleClass(name, state === name);
+						}
+					}
+				});
+			cy.edges()
+				.not(".edge-draft")
+				.forEach((edge) => {
+					const isHighlighted = isHighlightedEdge(edge);
+					edge.toggleClass("highlighted", isHighlighted);
+					edge.toggleClass("dimmed", fade && !isHighlighted);
+				});
+		});
+	}
+
+	/**
+	 * Node whose neighborhood is lit: the focused node in focus mode, else
+	 * the hovered node, else the only selected node.
+	 */
+	private getHighlightCenter(): NodeSingular | null {
+		if (!this.cy) return null;
+		const ids = [
+			this.focusMode ? this.focusedNode : null,
+			this.hoveredNode,
+			this.getSelectedNodeId(),
+		];
+		for (const id of ids) {
+			if (!id) continue;
+			const node = this.cy.getElementById(id);
+			if (node.nonempty()) return node as NodeSingular;
+		}
+		return null;
+	}
+
+	private getSelectedNodeId(): string | null {
+		const selected = this.cy?.nodes(":selected");
+		return selected?.length === 1 ? selected.first().id() : null;
+	}
+
+	/**
+	 * Keep the neighborhood of one node lit while the mouse moves on;
+	 * clicking another node moves the focus there.
+	 */
+	private setFocusMode(enabled: boolean, id?: string): void {
+		this.focusMode = enabled;
+		this.focusedNode = enabled
+			? (id ?? this.hoveredNode ?? this.getSelectedNodeId())
+			: null;
+		this.updateHighlight();
+	}
+
+	private setFocusedNode(id: string | null): void {
+		this.focusedNode = id;
+		this.updateHighlight();
+	}
+
+	/**
+	 * Run a navigation key's action unless it was typed into a field of
+	 * the floating panel. Returns false (handled) so Obsidian stops the key.
+	 */
+	private handleNavigationKey(
+		evt: KeyboardEvent,
+		action: () => boolean,
+	): boolean {
+		const target = evt.target;
+		if (
+			target instanceof HTMLElement &&
+			target.closest("input, textarea, select, [contenteditable]")
+		) {
+			return true;
+		}
+		return !action();
+	}
+
+	/**
+	 * Node the arrow keys move from: the focused node in focus mode, else
+	 * the only selected node.
+	 */
+	private getKeyboardNode(): NodeSingular | null {
+		if (!this.cy) return null;
+		const id = this.focusMode
+			? this.focusedNode
+			: this.getSelectedNodeId();
+		const node = id ? this.cy.getElementById(id) : null;
+		return node?.nonempty() ? (node as NodeSingular) : null;
+	}
+
+	/**
+	 * Move to the neighbor lying most nearly in the arrow's direction,
+	 * preferring close ones. With nothing to move from yet, start at the
+	 * node nearest the middle of the view.
+	 */
+	private moveToNeighbor(dx: number, dy: number): boolean {
+		if (!this.cy) return false;
+		const canVisit = (node: NodeSingular) =>
+			!node.isParent() &&
+			!node.hasClass("edge-draft") &&
+			!node.hasClass("hidden");
+
+		const current = this.getKeyboardNode();
+		const extent = this.cy.extent();
+		const from = current
+			? current.position()
+			: { x: (extent.x1 + extent.x2) / 2, y: (extent.y1 + extent.y2) / 2 };
+		const candidates = current
+			? current.neighborhood().nodes()
+			: this.cy.nodes();
+
+		let best: NodeSingular | null = null;
+		let bestScore = Infinity;
+		candidates.forEach((node) => {
+			if (!canVisit(node)) return;
+			const vx = node.position("x") - from.x;
+			const vy = node.position("y") - from.y;
+			const distance = Math.hypot(vx, vy);
+			if (!current) {
+				if (distance < bestScore) {
+					best = node;
+					bestScore = distance;
+				}
+				return;
+			}
+			if (distance === 0) return;
+			// Cosine of the angle off the arrow; within 60 degrees counts
+			const alignment = (vx * dx + vy * dy) / distance;
+			if (alignment < 0.5) return;
+			const score = distance * (2 - alignment);
+			if (score < bestScore) {
+				best = node;
+				bestScore = score;
+			}
+		});
+		if (!best) return !!current;
+		this.moveKeyboardFocus(best);
+		return true;
+	}
+
+	/**
+	 * Focus (in focus mode) or select the node, bringing it into view.
+	 */
+	private moveKeyboardFocus(node: NodeSingular): void {
+		if (!this.cy) return;
+		if (this.focusMode) {
+			this.setFocusedNode(node.id());
+		} else {
+			this.cy.nodes(":selected").unselect();
+			node.select();
+		}
+		const extent = this.cy.extent();
+		const { x, y } = node.position();
+		if (x < extent.x1 || x > extent.x2 || y < extent.y1 || y > extent.y2) {
+			this.cy.animate({ center: { eles: node } }, { duration: 200 });
+		}
+	}
+
+	private openKeyboardNode(): boolean {
+		const node = this.getKeyboardNode();
+		if (!node || !this.isFileNode(node)) return false;
+		this.openFile(node.id());
+		return true;
+	}
+
+	/**
+	 * Escape leaves find-path mode, then drops the focus, then the
+	 * selection.
+	 */
+	private clearHighlight(): boolean {
+		if (this.pathFinder) {
+			this.exitPathMode();
+			return true;
+		}
+		if (this.focusMode && this.focusedNode) {
+			this.setFocusedNode(null);
+			return true;
+		}
+		const selected = this.cy?.nodes(":selected");
+		if (!selected?.nonempty()) return false;
+		selected.unselect();
+		return true;
+	}
+
+	/**
+	 * Side panel listing the path's ends, options and hops.
+	 */
+	private renderPathPanel(): void {
+		const panel = this.pathPanelEl;
+		if (!panel) return;
+		panel.empty();
+		const finder = this.pathFinder;
+		if (!finder) {
+			panel.hide();
+			return;
+		}
+		panel.show();
+
+		const header = panel.createDiv({ cls: "supergraph-path-header" });
+		header.createSpan({ text: "Find path", cls: "supergraph-path-title" });
+		const closeBtn = header.createEl("button", {
+			cls: "clickable-icon",
+			attr: { "aria-label": "Close" },
+		});
+		setIcon(closeBtn, "x");
+		closeBtn.addEventListener("click", () => this.exitPathMode());
+
+		const addEnd = (label: string, id: string | null, pick: () => void) => {
+			const row = panel.createDiv({ cls: "settings-row" });
+			row.createSpan({ text: label, cls: "settings-label" });
+			row.createSpan({
+				text: id ? this.getNodeLabel(id) : "Click a note",
+				cls: id ? "supergraph-path-end" : "supergraph-path-end is-empty",
+			});
+			const pickBtn = row.createEl("button", {
+				cls: "clickable-icon",
+				attr: { "aria-label": `Choose ${label.toLowerCase()} note` },
+			});
+			setIcon(pickBtn, "search");
+			pickBtn.addEventListener("click", pick);
+		};
+		const pickNote = (onChoose: (id: string) => void) => {
+			new NoteSuggestModal(
+				this.app,
+				this.getGraphFiles(),
+				"Choose a note in the graph",
+				(file) => onChoose(file.path),
+			).open();
+		};
+		addEnd("From", finder.source, () =>
+			pickNote((id) => {
+				if (!this.pathFinder) return;
+				this.pathFinder = { ...this.pathFinder, source: id };
+				this.findPaths();
+			}),
+		);
+		addEnd("To", finder.target, () =>
+			pickNote((id) => {
+				if (!this.pathFinder) return;
+				this.pathFinder = { ...this.pathFinder, target: id };
+				this.findPaths();
+			}),
+		);
+
+		this.createToggle(
+			panel,
+			"Ignore direction",
+			this.pathOptions.undirected,
+			(val) => {
+				this.pathOptions = { ...this.pathOptions, undirected: val };
+				this.findPaths();
 			},
-		]);
+		);
+		this.createToggle(
+			panel,
+			"Include manual edges",
+			this.pathOptions.includeManual,
+			(val) => {
+				this.pathOptions = { ...this.pathOptions, includeManual: val };
+				this.findPaths();
+			},
+		);
+
+		if (!finder.source || !finder.target) return;
+		if (finder.paths.length === 0) {
+			panel.createDiv({
+				text: "No path between these notes.",
+				cls: "supergraph-path-empty",
+			});
+			return;
+		}
+		finder.paths.forEach((path, i) => {
+			const hops = path.length - 1;
+			panel.createDiv({
+				text: `Path ${i + 1} · ${hops === 1 ? "1 hop" : `${hops} hops`}`,
+				cls: "supergraph-path-heading",
+			});
+			const list = panel.createEl("ol", { cls: "supergraph-path-hops" });
+			for (const id of path) {
+				const item = list.createEl("li", {
+					text: this.getNodeLabel(id),
+					cls: "supergraph-path-hop",
+				});
+				item.addEventListener("click", (evt) =>
+					this.openFile(id, this.getPaneType(evt)),
+				);
+			}
+		});
 	}
 
-	private escapeHtml(text: string): string {
-		const div = document.createElement("div");
-		div.textContent = text;
-		return div.innerHTML;
+	private getNodeLabel(id: string): string {
+		return this.cy?.getElementById(id).data("label") ?? id;
 	}
 
-	private async loadGraphData(): Promise<void> {
-		const files = this.app.vault.getMarkdownFiles();
-		const nodes: GraphNode[] = [];
-		const edges: GraphEdge[] = [];
+	/**
+	 * Notes and attachments currently in the graph.
+	 */
+	private getGraphFiles(): TFile[] {
+		if (!this.cy) return [];
+		return this.cy
+			.nodes()
+			.filter((node) => this.isFileNode(node))
+			.map((node) => this.app.vault.getAbstractFileByPath(node.id()))
+			.filter((file): file is TFile => file instanceof TFile);
+	}
 
-		// Refresh autocomplete suggestions when graph data reloads
-		this.searchSuggest?.refreshSuggestionData();
+	/**
+	 * Select every node of a community, replacing the current selection.
+	 */
+	private selectCommunity(community: Community): void {
+		if (!this.cy) return;
+		const ids = new Set(community.members);
+		this.cy.nodes(":selected").unselect();
+		this.cy.nodes().filter((node) => ids.has(node.id())).select();
+	}
 
-		// Create nodes from files (async to load content snippets)
-		const nodePromises: Promise<GraphNode>[] = [];
-		for (const file of files) {
-			if (this.shouldIncludeFile(file)) {
-				nodePromises.push(this.createNodeFromFile(file));
+	/**
+	 * Ask for a name, then create and open a note linking to each of `files`.
+	 */
+	private promptLinkingNote(files: TFile[], defaultName: string): void {
+		new BoardNameModal(this.app, "New note", defaultName, async (name) => {
+			try {
+				const note = await createLinkingNote(this.app, files, name);
+				await this.openFile(note.path);
+			} catch (e) {
+				new Notice(`Could not create note: ${e.message}`);
 			}
-		}
-		const loadedNodes = await Promise.all(nodePromises);
-		nodes.push(...loadedNodes);
+		}).open();
+	}
 
-		// Create edges from links
-		if (this.plugin.settings.showLinks) {
-			for (const file of files) {
-				const cache = this.app.metadataCache.getFileCache(file);
-				if (cache?.links) {
-					for (const link of cache.links) {
-						const targetFile =
-							this.app.metadataCache.getFirstLinkpathDest(
-								link.link,
-								file.path,
-							);
-						if (targetFile) {
-							edges.push({
-								id: `${file.path}->${targetFile.path}`,
-								source: file.path,
-								target: targetFile.path,
-							});
-						}
-					}
-				}
-			}
+	/**
+	 * Move nodes to positions computed by an align/distribute helper.
+	 * Pinned nodes move too and stay pinned.
+	 */
+	private arrangeNodes(
+		nodes: cytoscape.NodeCollection,
+		arrange: (
+			positions: Map<string, NodePosition>,
+			axis: Axis,
+		) => Map<string, NodePosition>,
+		axis: Axis,
+	): void {
+		// Stop the simulation so it doesn't pull the nodes straight back
+		this.layout?.stop();
+
+		const positions = new Map<string, NodePosition>();
+		nodes.forEach((node) => {
+			positions.set(node.id(), { ...node.position() });
+		});
+		const arranged = arrange(positions, axis);
+		nodes.forEach((node) => {
+			const position = arranged.get(node.id());
+			if (!position) return;
+			node.position(position);
+			this.fixPinnedPosition(node);
+		});
+		this.saveGraphStateDebounced();
+	}
+
+	/**
+	 * Pin or unpin a node. Pinned nodes can still be dragged, but the
+	 * d3-force layout leaves them where they are.
+	 */
+	private setPinned(node: NodeSingular, pinned: boolean): void {
+		if (!!node.data("pinned") === pinned) return;
+		if (pinned) node.data("pinned", true);
+		else node.removeData("pinned");
+		this.fixPinnedPosition(node);
+		this.saveGraphStateDebounced();
+	}
+
+	/**
+	 * Give a pinned node fixed `fx`/`fy` coordinates at its position in the
+	 * d3-force simulation, or clear them for an unpinned one. The layout
+	 * keeps these in the node's scratch data, shared across runs.
+	 */
+	private fixPinnedPosition(node: NodeSingular): void {
+		const scratch = node.scratch("d3-force") ?? {};
+		if (node.data("pinned")) {
+			const { x, y } = node.position();
+			scratch.fx = x;
+			scratch.fy = y;
+		} else {
+			delete scratch.fx;
+			delete scratch.fy;
 		}
+		node.scratch("d3-force", scratch);
+	}
 
-		// Load saved state
-		const savedState = await this.loadGraphState();
+	private async copyLink(file: TFile): Promise<void> {
+		const link = this.app.fileManager.generateMarkdownLink(file, "");
+		await navigator.clipboard.writeText(link);
+		new Notice("Link copied");
+	}
 
-		// Merge positions from saved state
-		if (savedState) {
-			nodes.forEach((node) => {
-				const savedNode = savedState.nodes.find(
-					(n) => n.id === node.id,
-				);
-				if (savedNode?.position) {
-					node.position = savedNode.position;
-				}
+	private revealInExplorer(file: TFile): void {
+		// @ts-ignore - internalPlugins is not part of the public API
+		const explorer = this.app.internalPlugins?.getPluginById("file-explorer");
+		explorer?.instance?.revealInFolder(file);
+	}
+
+	private renameFile(file: TFile): void {
+		new BoardNameModal(this.app, "Rename file", file.basename, (name) => {
+			const folder = file.parent?.path;
+			const fileName = `${name}.${file.extension}`;
+			const newPath =
+				folder && folder !== "/" ? `${folder}/${fileName}` : fileName;
+			if (newPath === file.path) return;
+			this.app.fileManager.renameFile(file, newPath).catch((e) => {
+				new Notice(`Could not rename file: ${e.message}`);
 			});
+		}).open();
+	}
 
-			// Add manual edges
-			savedState.edges.forEach((edge) => {
-				if (edge.isManual && !edges.find((e) => e.id === edge.id)) {
-					edges.push(edge);
-				}
+	async saveGraphState(): Promise<void> {
+		const board = this.getBoard();
+		if (!this.cy || !board) return;
+
+		const nodes: GraphNode[] = [];
+		const edges: GraphEdge[] = [];
+
+		this.cy.nodes().not(".edge-draft").forEach((node) => {
+			const pos = node.position();
+			nodes.push({
+				id: node.id(),
+				label: node.data("label"),
+				snippet: node.data("snippet"),
+				position: { x: pos.x, y: pos.y },
+				pinned: node.data("pinned") || undefined,
+			});
+		});
+
+		// Folder edges are rebuilt from the links they stand for
+		this.cy.edges().not(".edge-draft, .folder-edge").forEach((edge) => {
+			edges.push({
+				id: edge.id(),
+				source: edge.data("source"),
+				target: edge.data("target"),
+				isManual: edge.hasClass("manual"),
+				label: edge.data("label"),
+				color: edge.data("color"),
+				relation: edge.data("relation"),
+				kind: edge.data("kind"),
+				property: edge.data("property"),
+				weight: edge.data("weight"),
 			});
+		});
+
+		// Nodes inside collapsed folders aren't drawn; keep what was saved
+		const hidden = this.collapsedMembers;
+		const saved = board.graphState;
+		if (hidden.size > 0 && saved) {
+			nodes.push(...saved.nodes.filter((node) => hidden.has(node.id)));
+			edges.push(
+				...saved.edges.filter(
+					(edge) => hidden.has(edge.source) || hidden.has(edge.target),
+				),
+			);
 		}
 
-		this.renderGraph(nodes, edges, savedState);
+		const state: GraphState = {
+			nodes,
+			edges,
+			zoom: this.cy.zoom(),
+			pan: this.cy.pan(),
+			collapsedFolders: [...this.collapsedFolders],
+		};
+
+		board.graphState = this.local.enabled
+			? this.mergeLocalGraphState(board.graphState, state)
+			: state;
+		await this.plugin.saveBoards();
 	}
 
 	/**
-	 * Determine if a file should be included in the graph.
-	 * Approximates Obsidian Graph View filter behavior:
-	 * - Matches against file path, aliases, and tags
-	 * - Case-insensitive substring matching
-	 * - Supports tag:, path:, and negation (-) prefixes
-	 * - Space-separated terms use AND logic
+	 * A local graph only shows a slice of its board, so it must not replace
+	 * the board's arrangement. Positions and viewport stay as they were;
+	 * only edges between the nodes shown here are taken from `local`.
 	 */
-	private shouldIncludeFile(file: TFile): boolean {
-		if (!this.plugin.settings.showAllFiles) {
-			return false;
-		}
+	private mergeLocalGraphState(
+		saved: GraphState | null,
+		local: GraphState,
+	): GraphState {
+		const shown = new Set(local.nodes.map((node) => node.id));
+		return {
+			nodes: saved?.nodes ?? [],
+			edges: [
+				...(saved?.edges ?? []).filter(
+					(edge) => !shown.has(edge.source) || !shown.has(edge.target),
+				),
+				...local.edges,
+			],
+			zoom: saved?.zoom ?? local.zoom,
+			pan: saved?.pan ?? local.pan,
+			collapsedFolders: local.collapsedFolders,
+		};
+	}
 
-		const filter = this.plugin.settings.fileFilter.trim();
-		if (!filter) {
-			return true;
-		}
+	private async loadGraphState(): Promise<GraphState | null> {
+		return this.getBoard()?.graphState ?? null;
+	}
+
+	private async saveViewSettings(): Promise<void> {
+		const board = this.getBoard();
+		if (!board) return;
+		board.viewSettings = {
+			display: { ...this.display },
+			forces: { ...this.forces },
+			groups: this.groups.map((g) => ({ ...g })),
+			layout: { ...this.layoutSettings },
+		};
+		await this.plugin.saveBoards();
+	}
 
-		// Parse and match using Graph View-style query syntax
-		const terms = parseQuery(filter);
-		return matchesQuery(file, terms, this.app);
+	private loadViewSettings(): void {
+		const viewSettings = this.getBoard()?.viewSettings;
+		this.display = { ...DEFAULT_DISPLAY, ...viewSettings?.display };
+		this.forces = { ...DEFAULT_FORCES, ...viewSettings?.forces };
+		this.layoutSettings = { ...DEFAULT_LAYOUT, ...viewSettings?.layout };
+		this.groups = (viewSettings?.groups ?? []).map((g) => ({ ...g }));
 	}
 
-	private async createNodeFromFile(file: TFile): Promise<GraphNode> {
-		let snippet = "";
-		try {
-			// First, check for description in frontmatter
-			const cache = this.app.metadataCache.getFileCache(file);
-			const description = cache?.frontmatter?.description;
+	async refreshGraph(): Promise<void> {
+		await this.loadGraphData();
+	}
 
-			if (description && typeof description === "string") {
-				snippet = description.slice(0, this.display.snippetLength);
-				if (description.length > this.display.snippetLength) {
-					snippet += "...";
+	/**
+	 * Patch the graph in place for a batch of vault changes instead of
+	 * rebuilding it. Only the changed notes are re-read, and only nodes whose
+	 * connections changed are nudged by the layout.
+	 */
+	async applyFileChanges(changes: FileChange[]): Promise<void> {
+		if (!this.cy) return;
+
+		// Any change can move notes in or out of the neighborhood, so local
+		// graphs are recomputed from the loaded nodes with only the changed
+		// files read again; positions on screen are kept
+		if (this.local.enabled) {
+			const renamed = changes.find(
+				(c) => c.type === "rename" && c.oldPath === this.focusPath,
+			);
+			if (renamed) this.focusPath = renamed.file.path;
+			await this.updateFileNodes(changes);
+			this.searchSuggest?.refreshSuggestionData();
+			await this.buildGraph(this.loadGeneration);
+			return;
+		}
+
+		// Notes can move between folders and change folder edge weights, so
+		// folder graphs are rebuilt from the saved state when notes come, go,
+		// move or change their links; other edits only redraw the cards
+		if (this.display.showFolders) {
+			if (await this.needsFolderRebuild(changes)) {
+				for (const change of changes) {
+					if (change.type === "rename" && change.oldPath) {
+						this.renameNode(change.oldPath, change.file.path);
+					}
 				}
+				await this.saveGraphState();
+				await this.loadGraphData();
+				return;
+			}
+			for (const change of changes) {
+				await this.refreshFileNode(change.file);
+			}
+			this.searchSuggest?.refreshSuggestionData();
+			this.updateNodeSizes(false);
+			if (this.pathFinder) {
+				this.findPaths();
 			} else {
-				// Fall back to content snippet
-				const content = await this.app.vault.cachedRead(file);
-				// Remove frontmatter if present
-				let cleanContent = content;
-				if (cleanContent.startsWith("---")) {
-					const endIndex = cleanContent.indexOf("---", 3);
-					if (endIndex !== -1) {
-						cleanContent = cleanContent.slice(endIndex + 3).trim();
+				this.updateHighlight();
+			}
+			return;
+		}
+
+		const elementCount = this.cy.elements().length;
+		const nudge: string[] = [];
+		for (const change of changes) {
+			switch (change.type) {
+				case "delete":
+					this.cy.getElementById(change.file.path).remove();
+					this.removeUnusedTagNodes();
+					this.removeUnusedUnresolvedNodes();
+					break;
+				case "rename":
+					if (change.oldPath) {
+						this.renameNode(change.oldPath, change.file.path);
 					}
-				}
-				// Remove headings, links, and formatting for cleaner preview
-				cleanContent = cleanContent
-					.replace(/^#+\s+/gm, "") // Remove headings
-					.replace(/\[\[([^\]|]+)(\|[^\]]+)?\]\]/g, "$1") // Convert [[link]] to text
-					.replace(/\[([^\]]+)\]\([^)]+\)/g, "$1") // Convert [text](url) to text
-					.replace(/[*_~`]/g, "") // Remove formatting
-					.replace(/\n+/g, " ") // Replace newlines with spaces
-					.trim();
-				snippet = cleanContent.slice(0, this.display.snippetLength);
-				if (cleanContent.length > this.display.snippetLength) {
-					snippet += "...";
-				}
+					if (await this.upsertFileNode(change.file)) {
+						nudge.push(change.file.path);
+					}
+					break;
+				case "create":
+				case "modify":
+					if (await this.upsertFileNode(change.file)) {
+						nudge.push(change.file.path);
+					}
+					break;
 			}
-		} catch (e) {
-			// Ignore read errors, leave snippet empty
 		}
-		return {
-			id: file.path,
-			label: file.basename,
-			snippet,
-		};
+
+		// New or renamed notes may be the target of ghost nodes
+		if (changes.some((c) => c.type === "create" || c.type === "rename")) {
+			nudge.push(...(await this.resolveUnresolvedNodes()));
+		}
+
+		this.searchSuggest?.refreshSuggestionData();
+		this.updateMutualEdges();
+		if (this.display.colorByCommunity) this.updateCommunities();
+		// Plain edits leave the graph metrics as they were
+		const structureChanged =
+			nudge.length > 0 ||
+			changes.some((c) => c.type !== "modify") ||
+			this.cy.elements().length !== elementCount;
+		this.updateNodeSizes(structureChanged);
+		if (this.pathFinder) {
+			this.findPaths();
+		} else {
+			this.updateHighlight();
+		}
+
+		this.nudgeNodes(nudge);
+		this.saveGraphStateDebounced();
 	}
 
-	private renderGraph(
-		nodes: GraphNode[],
-		edges: GraphEdge[],
-		savedState: GraphState | null,
-	): void {
+	/**
+	 * Whether changes can move notes between folders or alter folder edges:
+	 * renames, creates and deletes, notes entering or leaving the graph, and
+	 * edits to a note's links or tags.
+	 */
+	private async needsFolderRebuild(changes: FileChange[]): Promise<boolean> {
+		for (const change of changes) {
+			if (change.type !== "modify") return true;
+			const path = change.file.path;
+			const shown =
+				!!this.cy?.getElementById(path).nonempty() ||
+				this.collapsedMembers.has(path);
+			if (shown !== (await this.shouldIncludeFile(change.file))) {
+				return true;
+			}
+			const signature = this.getEdgeSignature(change.file);
+			if (this.edgeSignatures.get(path) !== signature) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Let the layout settle the given nodes after their edges changed.
+	 */
+	private nudgeNodes(ids: string[]): void {
 		if (!this.cy) return;
+		const nudgeIds = new Set(ids);
+		const nudgeNodes = this.cy
+			.nodes()
+			.filter((node) => nudgeIds.has(node.id()));
+		if (nudgeNodes.empty()) return;
+		// Other layouts place new nodes by rerunning over the whole graph
+		if (this.layoutSettings.name === "force") {
+			this.startForceLayout(nudgeNodes);
+		} else {
+			this.runLayout();
+		}
+	}
 
-		// Check if all nodes have saved positions
-		const allNodesHavePositions =
-			nodes.length > 0 && nodes.every((n) => n.position);
+	/**
+	 * Add edges from notes that link to `file`, per the resolved links.
+	 * Returns true if any were added.
+	 */
+	private addIncomingEdges(file: TFile): boolean {
+		let added = false;
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		for (const sourcePath in resolvedLinks) {
+			if (!resolvedLinks[sourcePath][file.path]) continue;
+			const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (!(sourceFile instanceof TFile)) continue;
+			const incoming = this.buildOutgoingEdges(sourceFile).filter(
+				(e) => e.target === file.path,
+			);
+			if (this.addMissingEdges(incoming)) added = true;
+		}
+		return added;
+	}
 
-		// Get center of the viewport for initial positioning
-		const containerWidth =
-			this.graphContainer?.clientWidth || PHYSICS.DEFAULT_WIDTH;
-		const containerHeight =
-			this.graphContainer?.clientHeight || PHYSICS.DEFAULT_HEIGHT;
-		const centerX = containerWidth / 2;
-		const centerY = containerHeight / 2;
+	/**
+	 * A note is often indexed after its create event is applied, so links
+	 * to it are looked up again once the metadata cache has settled.
+	 */
+	private linkCreatedNotes(): void {
+		if (!this.cy || this.createdPaths.size === 0) return;
+		const nudge: string[] = [];
+		for (const path of this.createdPaths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			if (this.cy.getElementById(path).empty()) continue;
+			if (this.addIncomingEdges(file)) nudge.push(path);
+		}
+		this.createdPaths.clear();
+		if (nudge.length === 0) return;
 
-		const elements = [
-			...nodes.map((node) => {
-				// If we have saved position, use it. Otherwise start from center with slight random offset
-				let position = node.position;
-				if (!position) {
-					// Small random offset from center for initial "explosion" effect
-					position = {
-						x:
-							centerX +
-							(Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
-						y:
-							centerY +
-							(Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD,
-					};
-				}
-				return {
-					data: {
-						id: node.id,
-						label: node.label,
-						snippet: node.snippet,
-					},
-					position,
-				};
-			}),
-			...edges.map((edge) => ({
-				data: {
-					id: edge.id,
-					source: edge.source,
-					target: edge.target,
-				},
-				classes: edge.isManual ? "manual" : "",
-			})),
-		];
+		this.updateMutualEdges();
+		this.nudgeNodes(nudge);
+		this.saveGraphStateDebounced();
+	}
+
+	/**
+	 * Bring the loaded file nodes up to date with a batch of vault changes,
+	 * reading only the changed files.
+	 */
+	private async updateFileNodes(changes: FileChange[]): Promise<void> {
+		const groups = this.getFileNodeGroups();
+		for (const change of changes) {
+			if (change.oldPath) this.fileNodes.delete(change.oldPath);
+			if (change.type === "delete") {
+				this.fileNodes.delete(change.file.path);
+				continue;
+			}
+			const node = await this.loadFileNode(change.file, groups);
+			if (node) {
+				this.fileNodes.set(node.id, node);
+			} else {
+				this.fileNodes.delete(change.file.path);
+			}
+		}
+	}
 
-		this.cy.elements().remove();
-		this.cy.add(elements);
+	/**
+	 * Replace the node for a renamed file, keeping its position and carrying
+	 * manual edges over to the new path.
+	 */
+	private renameNode(oldPath: string, newPath: string): void {
+		if (!this.cy) return;
 
-		// Enable dragging on all nodes after they are added
-		this.cy.nodes().forEach((node) => {
-			node.grabify();
+		const oldNode = this.cy.getElementById(oldPath);
+		if (oldNode.empty()) return;
+
+		const manualEdges = oldNode
+			.connectedEdges(".manual")
+			.map((edge) => ({ ...edge.data() }));
+		const position = { ...oldNode.position() };
+		const data = oldNode.data();
+		const classes = oldNode.classes();
+		oldNode.remove();
+
+		this.cy.add({
+			group: "nodes",
+			data: { ...data, id: newPath },
+			position,
+			classes,
 		});
 
-		if (allNodesHavePositions && savedState?.zoom && savedState?.pan) {
-			// Restore saved viewport
-			this.cy.viewport({
-				zoom: savedState.zoom,
-				pan: savedState.pan,
+		for (const edge of manualEdges) {
+			const source = edge.source === oldPath ? newPath : edge.source;
+			const target = edge.target === oldPath ? newPath : edge.target;
+			const id = edge.relation
+				? frontmatterEdgeId(edge.relation, source, target)
+				: `manual:${source}->${target}`;
+			if (this.cy.getElementById(id).nonempty()) continue;
+			this.cy.add({
+				group: "edges",
+				data: { ...edge, id, source, target },
+				classes: "manual",
 			});
+		}
+	}
+
+	/**
+	 * Add or refresh the node for a file and sync its outgoing edges.
+	 * Returns true when the node is new or its edges changed, i.e. when the
+	 * layout should settle it.
+	 */
+	private async upsertFileNode(file: TFile): Promise<boolean> {
+		if (!this.cy) return false;
+
+		const existing = this.cy.getElementById(file.path);
+		if (!(await this.shouldIncludeFile(file))) {
+			existing.remove();
+			this.removeUnusedTagNodes();
+			this.removeUnusedUnresolvedNodes();
+			return false;
+		}
+
+		let structureChanged = false;
+		if (existing.nonempty()) {
+			await this.refreshFileNode(file);
+			if (!this.cy) return false;
 		} else {
-			// Fit to show all nodes initially
-			this.cy.fit(undefined, PHYSICS.FIT_PADDING);
+			const node =
+				file.extension === "md"
+					? await this.createNodeFromFile(file)
+					: buildAttachmentNode(this.app, file);
+			const groupColor = await this.findFileGroupColor(file);
+			if (!this.cy) return false;
+			const added = this.cy.add({
+				group: "nodes",
+				data: this.getNodeData(node),
+				position: this.getInitialPosition(file),
+				classes: this.getNodeClasses(node),
+			});
+			this.setGroupColor(added, groupColor);
+			structureChanged = true;
+
+			this.addIncomingEdges(file);
+			this.createdPaths.add(file.path);
 		}
 
-		// Always run the continuous force layout
-		this.startForceLayout();
+		// Sync outgoing link and frontmatter edges; overlay manual edges are untouched
+		const desired = this.buildOutgoingEdges(file);
+		const desiredIds = new Set(desired.map((e) => e.id));
+		const stale = this.cy
+			.getElementById(file.path)
+			.outgoers("edge")
+			.filter(
+				(edge) =>
+					(!edge.hasClass("manual") || !!edge.data("relation")) &&
+					!desiredIds.has(edge.id()),
+			);
+		if (stale.nonempty()) {
+			stale.remove();
+			structureChanged = true;
+		}
+		this.addUnresolvedNodes(desired, {
+			...this.cy.getElementById(file.path).position(),
+		});
+		if (this.addMissingEdges(desired)) {
+			structureChanged = true;
+		}
+		// Link counts can change while the edge itself stays
+		for (const edge of desired) {
+			const existing = this.cy.getElementById(edge.id);
+			if (existing.nonempty() && existing.data("weight") !== edge.weight) {
+				existing.data("weight", edge.weight);
+			}
+		}
+		if (this.removeUnusedUnresolvedNodes()) {
+			structureChanged = true;
+		}
+		if (this.syncTagNodes(file)) {
+			structureChanged = true;
+		}
+
+		return structureChanged;
 	}
 
-	private startForceLayout(): void {
-		if (!this.cy) return;
+	/**
+	 * Redraw a shown file's card from the file: label, snippet, thumbnail,
+	 * group color and pin property.
+	 */
+	private async refreshFileNode(file: TFile): Promise<void> {
+		const node =
+			file.extension === "md"
+				? await this.createNodeFromFile(file)
+				: buildAttachmentNode(this.app, file);
+		const groupColor = await this.findFileGroupColor(file);
+		const existing = this.cy?.getElementById(file.path);
+		if (!existing || existing.empty()) return;
 
-		// Stop existing layout if any
-		if (this.layout) {
-			this.layout.stop();
+		// Updating data re-renders the card's HTML label
+		existing.data({
+			label: node.label,
+			snippet: node.snippet,
+			thumbnail: node.thumbnail,
+		});
+		this.setGroupColor(existing, groupColor);
+		if (node.pinned !== undefined) {
+			this.setPinned(existing, node.pinned);
 		}
+	}
 
-		const centerX =
-			(this.graphContainer?.clientWidth || PHYSICS.DEFAULT_WIDTH) / 2;
-		const centerY =
-			(this.graphContainer?.clientHeight || PHYSICS.DEFAULT_HEIGHT) / 2;
-
-		// Calculate forces from user settings and physics constants
-		const repelStrength =
-			-this.forces.repelForce * PHYSICS.REPEL_MULTIPLIER;
-		const linkDistance = Math.max(
-			this.forces.linkDistance,
-			PHYSICS.MIN_LINK_DISTANCE,
-		);
-		const linkStrength =
-			this.forces.linkForce * PHYSICS.LINK_STRENGTH_MULTIPLIER;
-		const centerStrength =
-			this.forces.centerForce * PHYSICS.CENTER_MULTIPLIER;
-		// Use the larger dimension for collision radius to prevent overlap
-		const cardDiagonal = Math.sqrt(
-			this.display.cardWidth ** 2 + this.display.cardHeight ** 2,
+	private async findFileGroupColor(file: TFile): Promise<string | null> {
+		return findGroupColor(
+			this.app,
+			file,
+			compileColorGroups(this.groups, !!this.getBoard()?.matchCase),
 		);
-		const collideRadius = cardDiagonal / 2;
+	}
 
-		this.layout = this.cy.layout({
-			name: "d3-force",
-			animate: true,
-			fixedAfterDragging: false,
-			ungrabifyWhileSimulating: false,
-			fit: false,
-			// @ts-ignore - d3-force specific options
-			alpha: PHYSICS.ALPHA_START,
-			alphaMin: PHYSICS.ALPHA_MIN,
-			alphaDecay: PHYSICS.ALPHA_DECAY,
-			alphaTarget: PHYSICS.ALPHA_TARGET,
-			velocityDecay: PHYSICS.VELOCITY_DECAY,
-			// Collision force - prevents overlap
-			collideRadius: collideRadius,
-			collideStrength: PHYSICS.COLLIDE_STRENGTH,
-			// Many-body force - repulsion between all nodes
-			manyBodyStrength: repelStrength,
-			manyBodyDistanceMin: PHYSICS.MANY_BODY_DISTANCE_MIN,
-			manyBodyDistanceMax: PHYSICS.MANY_BODY_DISTANCE_MAX,
-			// Link force - spring with minimum length
-			linkId: function (d: any) {
-				return d.id;
-			},
-			linkDistance: linkDistance,
-			linkStrength: linkStrength,
-			// Center force - pulls toward center
-			xStrength: centerStrength,
-			xX: centerX,
-			yStrength: centerStrength,
-			yY: centerY,
-		} as cytoscape.LayoutOptions);
+	/**
+	 * Bring a note's tag edges in line with its current tags, adding tag
+	 * nodes that are now used and removing ones that no longer are.
+	 * Returns true if anything changed.
+	 */
+	private syncTagNodes(file: TFile): boolean {
+		if (!this.cy) return false;
 
-		this.layout.run();
+		const tags = this.plugin.settings.showTags
+			? getFileTags(this.app, file)
+			: [];
+		const desired = this.plugin.settings.showTags
+			? buildNoteTagEdges(this.app, file)
+			: [];
+		const desiredIds = new Set(desired.map((e) => e.id));
+
+		let changed = false;
+		const stale = this.cy
+			.getElementById(file.path)
+			.incomers("edge.tag-edge")
+			.filter((edge) => !desiredIds.has(edge.id()));
+		if (stale.nonempty()) {
+			stale.remove();
+			changed = true;
+		}
+
+		// New tag nodes start next to the note that introduced them
+		const position = { ...this.cy.getElementById(file.path).position() };
+		for (const tag of tags) {
+			for (const level of getTagHierarchy(tag)) {
+				if (this.cy.getElementById(tagNodeId(level)).nonempty()) {
+					continue;
+				}
+				const node = buildTagNode(level);
+				this.cy.add({
+					group: "nodes",
+					data: this.getNodeData(node),
+					position,
+					classes: this.getNodeClasses(node),
+				});
+				const parentEdge = buildTagParentEdge(level);
+				if (parentEdge) this.addMissingEdges([parentEdge]);
+				changed = true;
+			}
+		}
+
+		if (this.addMissingEdges(desired)) {
+			changed = true;
+		}
+		if (this.removeUnusedTagNodes()) {
+			changed = true;
+		}
+		return changed;
 	}
 
-	private async openFile(filePath: string): Promise<void> {
-		const file = this.app.vault.getAbstractFileByPath(filePath);
-		if (file instanceof TFile) {
-			const leaf = this.app.workspace.getLeaf(false);
-			await leaf.openFile(file);
+	/**
+	 * Remove tag nodes that no longer lead to any note. Edges run from
+	 * parent tags to child tags to notes, so unused nodes are found leaf-first.
+	 * Returns true if anything was removed.
+	 */
+	private removeUnusedTagNodes(): boolean {
+		if (!this.cy) return false;
+
+		const isUnused = (node: NodeSingular) => node.outdegree(false) === 0;
+		let removed = false;
+		let unused = this.cy.nodes(".tag").filter(isUnused);
+		while (unused.nonempty()) {
+			unused.remove();
+			removed = true;
+			unused = this.cy.nodes(".tag").filter(isUnused);
 		}
+		return removed;
 	}
 
-	private async saveGraphState(): Promise<void> {
+	/**
+	 * Add ghost nodes for unresolved link targets that aren't on the graph
+	 * yet, starting them at `position`.
+	 */
+	private addUnresolvedNodes(
+		edges: GraphEdge[],
+		position: NodePosition,
+	): void {
 		if (!this.cy) return;
 
-		const nodes: GraphNode[] = [];
-		const edges: GraphEdge[] = [];
-
-		this.cy.nodes().forEach((node) => {
-			const pos = node.position();
-			nodes.push({
-				id: node.id(),
-				label: node.data("label"),
-				snippet: node.data("snippet"),
-				position: { x: pos.x, y: pos.y },
+		for (const edge of edges) {
+			if (
+				!edge.linkpath ||
+				this.cy.getElementById(edge.target).nonempty()
+			) {
+				continue;
+			}
+			const node = buildUnresolvedNode(edge.linkpath);
+			this.cy.add({
+				group: "nodes",
+				data: this.getNodeData(node),
+				position: { ...position },
+				classes: this.getNodeClasses(node),
 			});
-		});
+		}
+	}
 
-		this.cy.edges().forEach((edge) => {
-			edges.push({
-				id: edge.id(),
-				source: edge.data("source"),
-				target: edge.data("target"),
-				isManual: edge.hasClass("manual"),
+	/**
+	 * Remove ghost nodes that no note links to anymore.
+	 * Returns true if anything was removed.
+	 */
+	private removeUnusedUnresolvedNodes(): boolean {
+		if (!this.cy) return false;
+
+		const unused = this.cy
+			.nodes(".unresolved")
+			.filter((node) => node.indegree(false) === 0);
+		unused.remove();
+		return unused.nonempty();
+	}
+
+	/**
+	 * After notes were created or renamed, re-sync the notes that link to
+	 * ghost nodes whose target now exists, so their edges point to the real
+	 * note. Returns the paths of the re-synced notes.
+	 */
+	private async resolveUnresolvedNodes(): Promise<string[]> {
+		if (!this.cy) return [];
+
+		const sources = new Set<string>();
+		this.cy.nodes(".unresolved").forEach((ghost) => {
+			const linkpath: string = ghost.data("linkpath");
+			ghost.incomers("node").forEach((source) => {
+				const dest = this.app.metadataCache.getFirstLinkpathDest(
+					linkpath,
+					source.id(),
+				);
+				if (dest) sources.add(source.id());
 			});
 		});
 
-		const state: GraphState = {
-			nodes,
-			edges,
-			zoom: this.cy.zoom(),
-			pan: this.cy.pan(),
+		const resynced: string[] = [];
+		for (const path of sources) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile && (await this.upsertFileNode(file))) {
+				resynced.push(path);
+			}
+		}
+		return resynced;
+	}
+
+	private getNodeData(node: GraphNode): Record<string, unknown> {
+		return {
+			id: node.id,
+			label: node.label,
+			snippet: node.snippet,
+			kind: node.kind,
+			groupColor: node.groupColor,
+			tag: node.tag,
+			thumbnail: node.thumbnail,
+			linkpath: node.linkpath,
+			pinned: node.pinned || undefined,
+			parent: node.parent,
+			collapsed: node.collapsed,
+			noteCount: node.noteCount,
 		};
+	}
 
-		await this.plugin.saveData({ graphState: state });
+	private getNodeClasses(node: GraphNode): string {
+		return node.kind
+			? `lod-${this.detailLevel} ${node.kind}`
+			: `lod-${this.detailLevel}`;
 	}
 
-	private async loadGraphState(): Promise<GraphState | null> {
-		const data = await this.plugin.loadData();
-		return data?.graphState || null;
+	private getRelationKeys(): Set<string> {
+		return new Set(this.plugin.settings.relationTypes.map((r) => r.key));
 	}
 
-	private async saveViewSettings(): Promise<void> {
-		const data = (await this.plugin.loadData()) || {};
-		data.viewSettings = {
-			display: this.display,
-			forces: this.forces,
+	private getEdgeData(edge: GraphEdge) {
+		return {
+			id: edge.id,
+			source: edge.source,
+			target: edge.target,
+			label: edge.label,
+			color: edge.color,
+			relation: edge.relation,
+			kind: edge.kind,
+			property: edge.property,
+			weight: edge.weight,
 		};
-		await this.plugin.saveData(data);
 	}
 
-	private async loadViewSettings(): Promise<void> {
-		const data = await this.plugin.loadData();
-		if (data?.viewSettings) {
-			this.display = { ...DEFAULT_DISPLAY, ...data.viewSettings.display };
-			this.forces = { ...DEFAULT_FORCES, ...data.viewSettings.forces };
+	/**
+	 * Draw mutual links (A -> B and B -> A of the same kind) as one
+	 * double-headed edge. Both edges stay in the graph so the layout feels
+	 * both; the one with the greater id is hidden, and the drawn one gets
+	 * their combined `pairWeight`.
+	 */
+	private updateMutualEdges(): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+		cy.batch(() => {
+			cy.edges("[kind]").forEach((edge) => {
+				const reverseId = reverseEdgeId(edge.data() as GraphEdge);
+				const reverse = reverseId ? cy.getElementById(reverseId) : null;
+				if (!reverse || reverse.empty()) {
+					edge.removeData("bidirectional pairWeight");
+					edge.removeClass("mirrored");
+				} else if (edge.id() < reverse.id()) {
+					edge.data({
+						bidirectional: true,
+						pairWeight:
+							(edge.data("weight") ?? 1) +
+							(reverse.data("weight") ?? 1),
+					});
+					edge.removeClass("mirrored");
+				} else {
+					edge.removeData("bidirectional pairWeight");
+					edge.addClass("mirrored");
+				}
+			});
+		});
+	}
+
+	private getEdgeClasses(edge: GraphEdge): string {
+		if (edge.isManual) return "manual";
+		if (edge.isFolder) return "folder-edge";
+		if (edge.isTag) return "tag-edge";
+		return isUnresolvedNodeId(edge.target) ? "unresolved-edge" : "";
+	}
+
+	/**
+	 * Tag, ghost and folder nodes aren't files, so they can't hold manual
+	 * edges.
+	 */
+	private canHaveManualEdges(node: NodeSingular): boolean {
+		return (
+			!node.hasClass("tag") &&
+			!node.hasClass("unresolved") &&
+			!node.hasClass("folder")
+		);
+	}
+
+	/**
+	 * Add edges that aren't in the graph yet and whose endpoints both exist.
+	 * Returns true if anything was added.
+	 */
+	private addMissingEdges(edges: GraphEdge[]): boolean {
+		if (!this.cy) return false;
+
+		let added = false;
+		for (const edge of edges) {
+			if (
+				this.cy.getElementById(edge.id).nonempty() ||
+				this.cy.getElementById(edge.source).empty() ||
+				this.cy.getElementById(edge.target).empty()
+			) {
+				continue;
+			}
+			this.cy.add({
+				group: "edges",
+				data: this.getEdgeData(edge),
+				classes: this.getEdgeClasses(edge),
+			});
+			added = true;
 		}
+		return added;
 	}
 
-	async refreshGraph(): Promise<void> {
-		await this.loadGraphData();
+	/**
+	 * Start a new node next to the notes it links to, or in the middle of
+	 * the current viewport if it has no connections on the graph yet.
+	 */
+	private getInitialPosition(file: TFile): NodePosition {
+		const spread = () => (Math.random() - 0.5) * PHYSICS.INITIAL_SPREAD;
+		if (!this.cy) return { x: spread(), y: spread() };
+
+		// A note created from a ghost node takes the ghost's place
+		const ghost = this.cy
+			.nodes(".unresolved")
+			.filter(
+				(node) =>
+					node.id() === unresolvedNodeId(file.basename) ||
+					node.id() ===
+						unresolvedNodeId(file.path.replace(/\.md$/, "")),
+			);
+		if (ghost.nonempty()) return { ...ghost.nodes().first().position() };
+
+		const neighborIds = new Set(
+			this.buildOutgoingEdges(file).map((e) => e.target),
+		);
+		const neighbors = this.cy
+			.nodes()
+			.filter((node) => neighborIds.has(node.id()));
+		if (neighbors.nonempty()) {
+			const bb = neighbors.boundingBox({});
+			return {
+				x: (bb.x1 + bb.x2) / 2 + spread(),
+				y: (bb.y1 + bb.y2) / 2 + spread(),
+			};
+		}
+
+		const extent = this.cy.extent();
+		return {
+			x: (extent.x1 + extent.x2) / 2 + spread(),
+			y: (extent.y1 + extent.y2) / 2 + spread(),
+		};
 	}
 
 	private resetView(): void {
@@ -1025,7 +5323,244 @@ export class SupergraphView extends ItemView {
 		this.saveGraphStateDebounced();
 	}
 
-	private runLayout(): void {
-		this.startForceLayout();
+	/**
+	 * Run the chosen layout over the whole graph. `fit` zooms to the result,
+	 * e.g. after switching layouts.
+	 */
+	private runLayout(fit = false): void {
+		if (this.layoutSettings.name === "force") {
+			this.startForceLayout();
+		} else {
+			this.startStaticLayout(fit);
+		}
+	}
+
+	/**
+	 * Run one of the non-force layouts once, animating nodes to their new
+	 * places. Pinned nodes stay where they are.
+	 */
+	private startStaticLayout(fit: boolean): void {
+		if (!this.cy) return;
+		const cy = this.cy;
+
+		if (this.layout) {
+			this.layout.stop();
+		}
+		this.releaseNudgeLocks();
+
+		const settings = this.layoutSettings;
+		// Pinned nodes keep their place
+		const nodes = cy.nodes().not(".edge-draft, .folder:parent, [?pinned]");
+		if (nodes.empty()) return;
+		const common = {
+			animate: true,
+			animationDuration: 500,
+			fit,
+			padding: PHYSICS.FIT_PADDING,
+			stop: () => this.saveGraphStateDebounced(),
+		};
+		const byLabel = (a: NodeSingular, b: NodeSingular) =>
+			String(a.data("label")).localeCompare(String(b.data("label")));
+
+		let options: cytoscape.LayoutOptions;
+		switch (settings.name) {
+			case "tree": {
+				const parents = buildTreeParents(
+					this.app,
+					nodes.map((node) => node.id()),
+					settings,
+				);
+				const positions = computeTreePositions(parents, {
+					x: this.display.cardWidth + LAYOUT_GAP,
+					y: this.display.cardHeight + LAYOUT_GAP * 2,
+				});
+				options = {
+					name: "preset",
+					positions: (node: NodeSingular) =>
+						positions.get(node.id()) ?? node.position(),
+					...common,
+				} as cytoscape.LayoutOptions;
+				break;
+			}
+			case "radial": {
+				// Around the selected node, else the local focus, else the hub
+				const selected = nodes.filter(":selected");
+				let rootId: string;
+				if (selected.nonempty()) {
+					rootId = selected.first().id();
+				} else if (
+					this.focusPath &&
+					cy.getElementById(this.focusPath).nonempty()
+				) {
+					rootId = this.focusPath;
+				} else {
+					rootId = nodes
+						.max((node) => (node as NodeSingular).degree(false))
+						.ele.id();
+				}
+				const root = cy.getElementById(rootId);
+				options = {
+					name: "breadthfirst",
+					circle: true,
+					directed: false,
+					roots: root,
+					spacingFactor: settings.radialSpacing,
+					avoidOverlap: true,
+					...common,
+				} as cytoscape.LayoutOptions;
+				break;
+			}
+			case "grid":
+				options = {
+					name: "grid",
+					avoidOverlap: true,
+					avoidOverlapPadding: LAYOUT_GAP,
+					sort: (a: NodeSingular, b: NodeSingular) =>
+						compareByProperty(
+							this.app,
+							settings.gridSortProperty,
+							a.id(),
+							b.id(),
+							byLabel(a, b),
+						),
+					...common,
+				} as cytoscape.LayoutOptions;
+				break;
+			case "concentric":
+				// Best-connected nodes in the middle
+				options = {
+					name: "concentric",
+					concentric: (node: NodeSingular) => node.degree(false),
+					minNodeSpacing: settings.concentricSpacing,
+					avoidOverlap: true,
+					...common,
+				} as cytoscape.LayoutOptions;
+				break;
+			case "cola":
+				options = {
+					name: "cola",
+					avoidOverlap: true,
+					nodeSpacing: () => settings.colaNodeSpacing,
+					edgeLength: settings.colaEdgeLength,
+					infinite: false,
+					...common,
+				} as cytoscape.LayoutOptions;
+				break;
+			default:
+				return;
+		}
+
+		this.layout = nodes.union(nodes.edgesWith(nodes)).layout(options);
+		this.layout.run();
+	}
+
+	/**
+	 * Layout picker plus the settings of the chosen layout.
+	 */
+	private buildLayoutSection(content: HTMLElement): void {
+		const settings = this.layoutSettings;
+		const update = (changes: Partial<LayoutSettings>, rebuild = false) => {
+			this.layoutSettings = { ...this.layoutSettings, ...changes };
+			this.saveViewSettingsDebounced();
+			// Show the chosen layout's settings (and Forces only for force)
+			if (rebuild) this.rebuildSettingsPanel();
+			this.runLayout(rebuild);
+		};
+
+		this.createDropdown(
+			content,
+			"Layout",
+			LAYOUT_NAMES,
+			settings.name,
+			(val) => update({ name: val as LayoutName }, true),
+		);
+
+		switch (settings.name) {
+			case "tree":
+				this.createDropdown(
+					content,
+					"Hierarchy",
+					{ folder: "Folders", property: "Property" },
+					settings.treeSource,
+					(val) =>
+						update(
+							{ treeSource: val as LayoutSettings["treeSource"] },
+							true,
+						),
+				);
+				if (settings.treeSource === "property") {
+					this.createTextInput(
+						content,
+						"Parent property",
+						settings.treeProperty,
+						DEFAULT_LAYOUT.treeProperty,
+						(val) => update({ treeProperty: val }),
+					);
+				}
+				break;
+			case "radial":
+				this.createSlider(
+					content,
+					"Ring spacing",
+					0.5,
+					3,
+					0.1,
+					settings.radialSpacing,
+					DEFAULT_LAYOUT.radialSpacing,
+					(val) => update({ radialSpacing: val }),
+				);
+				break;
+			case "grid":
+				this.createTextInput(
+					content,
+					"Sort by property",
+					settings.gridSortProperty,
+					"title",
+					(val) => update({ gridSortProperty: val }),
+				);
+				break;
+			case "concentric":
+				this.createSlider(
+					content,
+					"Node spacing",
+					10,
+					200,
+					10,
+					settings.concentricSpacing,
+					DEFAULT_LAYOUT.concentricSpacing,
+					(val) => update({ concentricSpacing: val }),
+				);
+				break;
+			case "cola":
+				this.createSlider(
+					content,
+					"Node spacing",
+					0,
+					100,
+					5,
+					settings.colaNodeSpacing,
+					DEFAULT_LAYOUT.colaNodeSpacing,
+					(val) => update({ colaNodeSpacing: val }),
+				);
+				this.createSlider(
+					content,
+					"Edge length",
+					50,
+					500,
+					10,
+					settings.colaEdgeLength,
+					DEFAULT_LAYOUT.colaEdgeLength,
+					(val) => update({ colaEdgeLength: val }),
+				);
+				break;
+		}
+
+		if (settings.name !== "force") {
+			const applyBtn = content.createEl("button", {
+				text: "Apply layout",
+				cls: "settings-animate-btn",
+			});
+			applyBtn.addEventListener("click", () => this.runLayout(true));
+		}
 	}
 }
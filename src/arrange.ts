@@ -0,0 +1,43 @@
+import { NodePosition } from "./types";
+
+/**
+ * Arrange Module
+ *
+ * Align and distribute helpers for selected nodes. Each takes the current
+ * positions by node id and returns the new ones.
+ */
+
+export type Axis = "x" | "y";
+
+/**
+ * Line nodes up on the average of their coordinates along `axis`, e.g.
+ * "y" puts them in one row.
+ */
+export function alignPositions(
+	positions: Map<string, NodePosition>,
+	axis: Axis,
+): Map<string, NodePosition> {
+	const values = [...positions.values()].map((pos) => pos[axis]);
+	const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+	return new Map(
+		[...positions].map(([id, pos]) => [id, { ...pos, [axis]: mean }]),
+	);
+}
+
+/**
+ * Space nodes evenly along `axis` between the outermost two, keeping their
+ * order.
+ */
+export function distributePositions(
+	positions: Map<string, NodePosition>,
+	axis: Axis,
+): Map<string, NodePosition> {
+	const sorted = [...positions].sort(([, a], [, b]) => a[axis] - b[axis]);
+	if (sorted.length < 3) return new Map(positions);
+
+	const first = sorted[0][1][axis];
+	const step = (sorted[sorted.length - 1][1][axis] - first) / (sorted.length - 1);
+	return new Map(
+		sorted.map(([id, pos], i) => [id, { ...pos, [axis]: first + step * i }]),
+	);
+}
@@ -0,0 +1,37 @@
+import { App, TFile } from "obsidian";
+import { GraphNode } from "./types";
+
+/**
+ * Attachment Nodes Module
+ *
+ * Non-markdown files (images, PDFs, canvases, ...) shown as nodes.
+ * Images get a thumbnail card; other files show their type instead of a
+ * snippet.
+ */
+
+const IMAGE_EXTENSIONS = new Set([
+	"png",
+	"jpg",
+	"jpeg",
+	"gif",
+	"bmp",
+	"svg",
+	"webp",
+	"avif",
+]);
+
+export function isImageFile(file: TFile): boolean {
+	return IMAGE_EXTENSIONS.has(file.extension.toLowerCase());
+}
+
+export function buildAttachmentNode(app: App, file: TFile): GraphNode {
+	return {
+		id: file.path,
+		label: file.name,
+		snippet: `${file.extension.toUpperCase()} file`,
+		kind: "attachment",
+		thumbnail: isImageFile(file)
+			? app.vault.getResourcePath(file)
+			: undefined,
+	};
+}
@@ -0,0 +1,39 @@
+import { Board } from "./types";
+
+/**
+ * Boards Module
+ *
+ * Helpers for named saved layouts. Boards are stored by the plugin; views
+ * look them up by id so several tabs can show different arrangements.
+ */
+
+function generateBoardId(): string {
+	return (
+		Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
+	);
+}
+
+/**
+ * Create an empty board. View settings and layout are filled in the first
+ * time a view bound to it saves.
+ */
+export function createBoard(name: string, query = ""): Board {
+	return {
+		id: generateBoardId(),
+		name,
+		query,
+		matchCase: false,
+		viewSettings: null,
+		graphState: null,
+	};
+}
+
+/**
+ * Deep-copy a board under a new id and name.
+ */
+export function duplicateBoard(board: Board, name: string): Board {
+	const copy: Board = JSON.parse(JSON.stringify(board));
+	copy.id = generateBoardId();
+	copy.name = name;
+	return copy;
+}
@@ -0,0 +1,87 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+/**
+ * Bulk Actions Module
+ *
+ * File operations applied to every note selected in the graph.
+ */
+
+/**
+ * Add `tag` to the `tags` frontmatter of each note that doesn't have it
+ * yet. Attachments have no frontmatter and are skipped.
+ */
+export async function addTagToFiles(
+	app: App,
+	files: TFile[],
+	tag: string,
+): Promise<void> {
+	const name = tag.trim().replace(/^#/, "");
+	if (!name) return;
+
+	for (const file of files) {
+		if (file.extension !== "md") continue;
+		await app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const value = frontmatter.tags;
+			const tags: unknown[] =
+				value === undefined || value === null || value === ""
+					? []
+					: Array.isArray(value)
+						? [...value]
+						: String(value).split(/[,\s]+/).filter((t) => t);
+			const exists = tags.some(
+				(t) =>
+					typeof t === "string" &&
+					t.replace(/^#/, "").toLowerCase() === name.toLowerCase(),
+			);
+			if (exists) return;
+			tags.push(name);
+			frontmatter.tags = tags;
+		});
+	}
+}
+
+/**
+ * Move files into `folder`, keeping their names. Files whose name is
+ * already taken there are left in place and returned.
+ */
+export async function moveFilesToFolder(
+	app: App,
+	files: TFile[],
+	folder: TFolder,
+): Promise<TFile[]> {
+	const skipped: TFile[] = [];
+	for (const file of files) {
+		if (file.parent === folder) continue;
+		const newPath = normalizePath(
+			folder.isRoot() ? file.name : `${folder.path}/${file.name}`,
+		);
+		if (app.vault.getAbstractFileByPath(newPath)) {
+			skipped.push(file);
+			continue;
+		}
+		await app.fileManager.renameFile(file, newPath);
+	}
+	return skipped;
+}
+
+/**
+ * Create a note named `name` in the default location for new notes,
+ * listing a link to each of `files`.
+ */
+export async function createLinkingNote(
+	app: App,
+	files: TFile[],
+	name: string,
+): Promise<TFile> {
+	const parent = app.fileManager.getNewFileParent("");
+	const path = normalizePath(
+		parent.isRoot() ? `${name}.md` : `${parent.path}/${name}.md`,
+	);
+	if (app.vault.getAbstractFileByPath(path)) {
+		throw new Error(`"${path}" already exists`);
+	}
+	const links = files.map(
+		(file) => `- ${app.fileManager.generateMarkdownLink(file, path)}`,
+	);
+	return app.vault.create(path, `${links.join("\n")}\n`);
+}
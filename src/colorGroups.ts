@@ -0,0 +1,74 @@
+import { App, TFile } from "obsidian";
+import { ColorGroup } from "./types";
+import {
+	QueryNode,
+	QuerySyntaxError,
+	matchesQuery,
+	parseQuery,
+	queryNeedsContent,
+} from "./graphSearch";
+
+/**
+ * Color Groups Module
+ *
+ * Colors nodes by the first group whose search query matches, like the
+ * groups in Obsidian's core graph view. Groups with an empty or invalid
+ * query are skipped.
+ */
+
+// Colors handed out to new groups, in order
+export const GROUP_PALETTE = [
+	"#e03131",
+	"#2f9e44",
+	"#1971c2",
+	"#f08c00",
+	"#9c36b5",
+	"#0c8599",
+];
+
+export interface CompiledColorGroup {
+	color: string;
+	query: QueryNode;
+}
+
+/**
+ * Parse each group's query once so nodes can be matched in bulk.
+ */
+export function compileColorGroups(
+	groups: ColorGroup[],
+	matchCase: boolean,
+): CompiledColorGroup[] {
+	const compiled: CompiledColorGroup[] = [];
+	for (const group of groups) {
+		// Colors end up in inline styles, so only accept hex values
+		if (!/^#[0-9a-f]{3,8}$/i.test(group.color)) continue;
+		try {
+			const query = parseQuery(group.query.trim(), { matchCase });
+			if (query) compiled.push({ color: group.color, query });
+		} catch (e) {
+			if (!(e instanceof QuerySyntaxError)) throw e;
+		}
+	}
+	return compiled;
+}
+
+/**
+ * Return the color of the first group matching `file`, or null.
+ * Notes are only read when a group's query needs their content;
+ * attachments are never read.
+ */
+export async function findGroupColor(
+	app: App,
+	file: TFile,
+	groups: CompiledColorGroup[],
+): Promise<string | null> {
+	if (groups.length === 0) return null;
+
+	const content =
+		file.extension === "md" &&
+		groups.some((g) => queryNeedsContent(g.query))
+			? await app.vault.cachedRead(file)
+			: undefined;
+	const match = groups.find((g) => matchesQuery(file, g.query, app, content));
+	return match?.color ?? null;
+}
@@ -0,0 +1,206 @@
+import { GROUP_PALETTE } from "./colorGroups";
+import { GraphEdge } from "./types";
+
+/**
+ * Communities Module
+ *
+ * Finds clusters of densely linked notes with the Louvain method: nodes
+ * move to the neighboring community that most improves modularity, the
+ * communities are merged into single nodes, and this repeats until nothing
+ * moves. Edges count as undirected and weigh as many links as they stand
+ * for. Nodes are visited in id order, so the same graph always gives the
+ * same communities (and colors).
+ */
+
+export interface Community {
+	// Member node ids, most central first
+	members: string[];
+	// The member with the most links inside the community; names the cluster
+	center: string;
+	color: string;
+}
+
+// Communities smaller than this aren't clusters worth naming
+const MIN_COMMUNITY_SIZE = 2;
+// Upper bound on passes over the nodes per level, in case of oscillation
+const MAX_PASSES = 20;
+
+/**
+ * Split the graph into communities, largest first. Edges to nodes outside
+ * `nodeIds` are ignored, and lone nodes belong to no community.
+ */
+export function detectCommunities(
+	nodeIds: string[],
+	edges: GraphEdge[],
+): Community[] {
+	const ids = [...new Set(nodeIds)].sort();
+	const index = new Map(ids.map((id, i) => [id, i]));
+
+	// Symmetric weighted adjacency; loops hold twice the weight inside a node
+	let adjacency: Map<number, number>[] = ids.map(() => new Map());
+	let loops: number[] = ids.map(() => 0);
+	for (const edge of edges) {
+		const s = index.get(edge.source);
+		const t = index.get(edge.target);
+		if (s === undefined || t === undefined || s === t) continue;
+		const weight = edge.weight ?? 1;
+		adjacency[s].set(t, (adjacency[s].get(t) ?? 0) + weight);
+		adjacency[t].set(s, (adjacency[t].get(s) ?? 0) + weight);
+	}
+
+	// Community of each original node, refined level by level
+	let membership = ids.map((_, i) => i);
+	for (;;) {
+		const level = moveNodes(adjacency, loops);
+		if (!level.moved) break;
+		membership = membership.map((c) => level.community[c]);
+		({ adjacency, loops } = aggregate(adjacency, loops, level.community));
+	}
+
+	const groups = new Map<number, string[]>();
+	ids.forEach((id, i) => {
+		const list = groups.get(membership[i]) ?? [];
+		list.push(id);
+		groups.set(membership[i], list);
+	});
+
+	const communityOf = new Map(ids.map((id, i) => [id, membership[i]]));
+	const insideWeight = new Map<string, number>();
+	for (const edge of edges) {
+		const c = communityOf.get(edge.source);
+		if (
+			c === undefined ||
+			edge.source === edge.target ||
+			communityOf.get(edge.target) !== c
+		) {
+			continue;
+		}
+		const weight = edge.weight ?? 1;
+		for (const id of [edge.source, edge.target]) {
+			insideWeight.set(id, (insideWeight.get(id) ?? 0) + weight);
+		}
+	}
+
+	// Most central member first: the most link weight inside, ties by id
+	const communities = [...groups.values()]
+		.filter((members) => members.length >= MIN_COMMUNITY_SIZE)
+		.map((members) =>
+			members.sort(
+				(a, b) =>
+					(insideWeight.get(b) ?? 0) - (insideWeight.get(a) ?? 0) ||
+					a.localeCompare(b),
+			),
+		)
+		.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+	return communities.map((members, i) => ({
+		members,
+		center: members[0],
+		color: communityColor(i),
+	}));
+}
+
+/**
+ * One level of local moving. Returns each node's community, numbered
+ * from 0, and whether any node left its own community.
+ */
+function moveNodes(
+	adjacency: Map<number, number>[],
+	loops: number[],
+): { community: number[]; moved: boolean } {
+	const n = adjacency.length;
+	const degree = adjacency.map((neighbors, i) => {
+		let sum = loops[i];
+		for (const weight of neighbors.values()) sum += weight;
+		return sum;
+	});
+	const total = degree.reduce((a, b) => a + b, 0);
+	const community = adjacency.map((_, i) => i);
+	if (total === 0) return { community, moved: false };
+
+	// Sum of the degrees in each community
+	const communityDegree = [...degree];
+	let moved = false;
+	for (let pass = 0; pass < MAX_PASSES; pass++) {
+		let changed = false;
+		for (let i = 0; i < n; i++) {
+			const current = community[i];
+			communityDegree[current] -= degree[i];
+
+			const links = new Map<number, number>([[current, 0]]);
+			for (const [j, weight] of adjacency[i]) {
+				const c = community[j];
+				links.set(c, (links.get(c) ?? 0) + weight);
+			}
+
+			// Modularity gain of joining c, up to a constant factor
+			const gain = (c: number) =>
+				(links.get(c) ?? 0) - (communityDegree[c] * degree[i]) / total;
+			let best = current;
+			let bestGain = gain(current);
+			for (const c of links.keys()) {
+				const g = gain(c);
+				if (g > bestGain + 1e-12) {
+					best = c;
+					bestGain = g;
+				}
+			}
+
+			communityDegree[best] += degree[i];
+			if (best !== current) {
+				community[i] = best;
+				changed = true;
+				moved = true;
+			}
+		}
+		if (!changed) break;
+	}
+
+	// Renumber the surviving communities 0, 1, 2, ...
+	const renumber = new Map<number, number>();
+	return {
+		community: community.map((c) => {
+			if (!renumber.has(c)) renumber.set(c, renumber.size);
+			return renumber.get(c) as number;
+		}),
+		moved,
+	};
+}
+
+/**
+ * Merge each community into a single node for the next level.
+ */
+function aggregate(
+	adjacency: Map<number, number>[],
+	loops: number[],
+	community: number[],
+): { adjacency: Map<number, number>[]; loops: number[] } {
+	const size = community.reduce((max, c) => Math.max(max, c + 1), 0);
+	const merged: Map<number, number>[] = Array.from(
+		{ length: size },
+		() => new Map(),
+	);
+	const mergedLoops = new Array<number>(size).fill(0);
+	adjacency.forEach((neighbors, i) => {
+		const ci = community[i];
+		mergedLoops[ci] += loops[i];
+		for (const [j, weight] of neighbors) {
+			const cj = community[j];
+			if (ci === cj) {
+				// Visited from both ends, so this adds the weight twice
+				mergedLoops[ci] += weight;
+			} else {
+				merged[ci].set(cj, (merged[ci].get(cj) ?? 0) + weight);
+			}
+		}
+	});
+	return { adjacency: merged, loops: mergedLoops };
+}
+
+/**
+ * The group palette first, then hues spread by the golden angle.
+ */
+function communityColor(index: number): string {
+	if (index < GROUP_PALETTE.length) return GROUP_PALETTE[index];
+	const hue = Math.round((index * 137.508) % 360);
+	return `hsl(${hue}, 60%, 50%)`;
+}
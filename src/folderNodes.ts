@@ -0,0 +1,144 @@
+import { GraphEdge, GraphNode } from "./types";
+
+/**
+ * Folder Nodes Module
+ *
+ * Groups file nodes into compound nodes, one per folder, nested like the
+ * folders themselves. A collapsed folder is drawn as a single summary node
+ * in place of everything below it; links leaving it are merged into one
+ * edge per neighbor whose weight counts the links.
+ */
+
+const FOLDER_PREFIX = "folder:";
+const FOLDER_EDGE_PREFIX = "folder-edge:";
+
+export function folderNodeId(path: string): string {
+	return `${FOLDER_PREFIX}${path}`;
+}
+
+export function isFolderNodeId(id: string): boolean {
+	return id.startsWith(FOLDER_PREFIX);
+}
+
+/**
+ * Folder path of a folder node id.
+ */
+export function folderPathFromId(id: string): string {
+	return id.slice(FOLDER_PREFIX.length);
+}
+
+/**
+ * Folder holding a file or folder path; "" for the vault root.
+ */
+export function parentFolderPath(path: string): string {
+	const slash = path.lastIndexOf("/");
+	return slash > 0 ? path.slice(0, slash) : "";
+}
+
+export interface FolderGrouping {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+	// Ids of the nodes hidden inside collapsed folders
+	hidden: Set<string>;
+}
+
+/**
+ * Put every note and attachment into its folder's compound node and fold
+ * the contents of `collapsed` folders (by path) into summary nodes. Folder
+ * nodes come first so they exist before their children. Tag and ghost
+ * nodes stay at the top level; edges whose ends aren't both in the graph
+ * are dropped.
+ */
+export function groupByFolder(
+	nodes: GraphNode[],
+	edges: GraphEdge[],
+	collapsed: Set<string>,
+): FolderGrouping {
+	const folders = new Map<string, GraphNode>();
+	const addFolder = (path: string): string => {
+		const id = folderNodeId(path);
+		if (!folders.has(id)) {
+			const parent = parentFolderPath(path);
+			folders.set(id, {
+				id,
+				label: path.slice(path.lastIndexOf("/") + 1),
+				snippet: "",
+				kind: "folder",
+				parent: parent ? addFolder(parent) : undefined,
+			});
+		}
+		return id;
+	};
+
+	// The node each node is drawn as: itself, or its collapsed folder
+	const shownAs = new Map<string, string>();
+	const hidden = new Set<string>();
+	const grouped: GraphNode[] = [];
+	for (const node of nodes) {
+		const isFile = !node.kind || node.kind === "attachment";
+		const folder = isFile ? parentFolderPath(node.id) : "";
+		const collapsedFolder = findOutermostCollapsed(folder, collapsed);
+		if (collapsedFolder) {
+			const id = addFolder(collapsedFolder);
+			const summary = folders.get(id) as GraphNode;
+			summary.collapsed = true;
+			if (!node.kind) summary.noteCount = (summary.noteCount ?? 0) + 1;
+			shownAs.set(node.id, id);
+			hidden.add(node.id);
+		} else {
+			grouped.push(folder ? { ...node, parent: addFolder(folder) } : node);
+			shownAs.set(node.id, node.id);
+		}
+	}
+
+	const merged = new Map<string, GraphEdge>();
+	const groupedEdges: GraphEdge[] = [];
+	for (const edge of edges) {
+		const source = shownAs.get(edge.source);
+		const target = shownAs.get(edge.target);
+		if (!source || !target) continue;
+		if (source === edge.source && target === edge.target) {
+			groupedEdges.push(edge);
+			continue;
+		}
+		// Links between notes of the same collapsed folder
+		if (source === target) continue;
+		const id = `${FOLDER_EDGE_PREFIX}${source}->${target}`;
+		const existing = merged.get(id);
+		if (existing) {
+			existing.weight = (existing.weight ?? 1) + (edge.weight ?? 1);
+		} else {
+			merged.set(id, {
+				id,
+				source,
+				target,
+				isFolder: true,
+				weight: edge.weight ?? 1,
+			});
+		}
+	}
+	for (const edge of merged.values()) {
+		edge.label = String(edge.weight);
+		groupedEdges.push(edge);
+	}
+
+	return {
+		nodes: [...folders.values(), ...grouped],
+		edges: groupedEdges,
+		hidden,
+	};
+}
+
+/**
+ * The outermost collapsed folder among `folder` and its ancestors.
+ */
+function findOutermostCollapsed(
+	folder: string,
+	collapsed: Set<string>,
+): string | null {
+	let found: string | null = null;
+	for (let path = folder; path; path = parentFolderPath(path)) {
+		if (collapsed.has(path)) found = path;
+	}
+	return found;
+}
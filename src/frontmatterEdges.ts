@@ -0,0 +1,137 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import { GraphEdge } from "./types";
+import { RelationType } from "./settings";
+
+/**
+ * Frontmatter Edges Module
+ *
+ * Stores manual edges as typed relations in the source note's frontmatter,
+ * e.g. `related: ["[[Target]]"]`, so they are visible to Obsidian and other
+ * plugins. Each relation type maps a display name to a frontmatter key.
+ */
+
+/**
+ * Build the edge id for a frontmatter relation.
+ * Shared by reading and writing so a freshly written edge matches the one
+ * produced on the next reload.
+ */
+export function frontmatterEdgeId(
+	key: string,
+	source: string,
+	target: string,
+): string {
+	return `frontmatter:${key}:${source}->${target}`;
+}
+
+/**
+ * Read all relation-type links from a file's frontmatter as manual edges.
+ * Links that don't resolve to an existing file are skipped.
+ */
+export function readFrontmatterEdges(
+	app: App,
+	file: TFile,
+	relationTypes: RelationType[],
+): GraphEdge[] {
+	const edges: GraphEdge[] = [];
+	const fmLinks = app.metadataCache.getFileCache(file)?.frontmatterLinks;
+	if (!fmLinks) return edges;
+
+	for (const relation of relationTypes) {
+		if (!relation.key) continue;
+		for (const fmLink of fmLinks) {
+			// Array entries are reported as "key.0", "key.1", ...
+			if (
+				fmLink.key !== relation.key &&
+				!fmLink.key.startsWith(`${relation.key}.`)
+			) {
+				continue;
+			}
+			const targetFile = app.metadataCache.getFirstLinkpathDest(
+				getLinkpath(fmLink.link),
+				file.path,
+			);
+			if (!targetFile) continue;
+
+			const id = frontmatterEdgeId(relation.key, file.path, targetFile.path);
+			if (edges.some((e) => e.id === id)) continue;
+			edges.push({
+				id,
+				source: file.path,
+				target: targetFile.path,
+				isManual: true,
+				relation: relation.key,
+				label: relation.name,
+			});
+		}
+	}
+
+	return edges;
+}
+
+/**
+ * Append a `[[Target]]` link to the source note's frontmatter under `key`.
+ * Existing scalar values are converted to a list.
+ */
+export async function addFrontmatterRelation(
+	app: App,
+	source: TFile,
+	target: TFile,
+	key: string,
+): Promise<void> {
+	const linktext = app.metadataCache.fileToLinktext(target, source.path, true);
+	const entry = `[[${linktext}]]`;
+
+	await app.fileManager.processFrontMatter(source, (frontmatter) => {
+		const entries = toEntryList(frontmatter[key]);
+		if (entries.some((e) => resolvesTo(app, e, source, target))) return;
+		entries.push(entry);
+		frontmatter[key] = entries;
+	});
+}
+
+/**
+ * Remove every link to `target` under `key` in the source note's frontmatter.
+ * The key is deleted entirely once no entries remain.
+ */
+export async function removeFrontmatterRelation(
+	app: App,
+	source: TFile,
+	target: TFile,
+	key: string,
+): Promise<void> {
+	await app.fileManager.processFrontMatter(source, (frontmatter) => {
+		if (frontmatter[key] === undefined) return;
+		const entries = toEntryList(frontmatter[key]).filter(
+			(e) => !resolvesTo(app, e, source, target),
+		);
+		if (entries.length === 0) {
+			delete frontmatter[key];
+		} else {
+			frontmatter[key] = entries;
+		}
+	});
+}
+
+function toEntryList(value: unknown): unknown[] {
+	if (value === undefined || value === null || value === "") return [];
+	return Array.isArray(value) ? [...value] : [value];
+}
+
+/**
+ * Check whether a frontmatter entry like "[[Target|Alias]]" links to `target`.
+ */
+function resolvesTo(
+	app: App,
+	entry: unknown,
+	source: TFile,
+	target: TFile,
+): boolean {
+	if (typeof entry !== "string") return false;
+	const match = entry.trim().match(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/);
+	if (!match) return false;
+	const dest = app.metadataCache.getFirstLinkpathDest(
+		getLinkpath(match[1]),
+		source.path,
+	);
+	return dest?.path === target.path;
+}
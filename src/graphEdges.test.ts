@@ -0,0 +1,28 @@
+import { edgesBetween } from "./graphEdges";
+import { GraphEdge, GraphNode } from "./types";
+
+function node(id: string): GraphNode {
+	return { id, label: id, snippet: "" };
+}
+
+function edge(source: string, target: string): GraphEdge {
+	return { id: `${source}->${target}`, source, target };
+}
+
+describe("edgesBetween", () => {
+	const nodes = [node("a.md"), node("b.md")];
+
+	it("keeps edges between shown nodes", () => {
+		const edges = [edge("a.md", "b.md"), edge("b.md", "a.md")];
+		expect(edgesBetween(nodes, edges)).toEqual(edges);
+	});
+
+	it("drops edges to files that aren't nodes, like embedded images", () => {
+		const edges = [edge("a.md", "b.md"), edge("a.md", "image.png")];
+		expect(edgesBetween(nodes, edges)).toEqual([edge("a.md", "b.md")]);
+	});
+
+	it("drops edges from notes the query leaves out", () => {
+		expect(edgesBetween(nodes, [edge("hidden.md", "a.md")])).toEqual([]);
+	});
+});
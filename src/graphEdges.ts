@@ -0,0 +1,21 @@
+import { GraphEdge, GraphNode } from "./types";
+
+/**
+ * Graph Edges Module
+ *
+ * Edges are built from every note's links, so some point at files that
+ * aren't drawn: embedded attachments with attachments off, notes the
+ * board's query leaves out, missing notes with ghost nodes off. Cytoscape
+ * refuses to add an edge whose ends aren't nodes.
+ */
+
+/**
+ * The edges whose source and target are both among `nodes`.
+ */
+export function edgesBetween(
+	nodes: GraphNode[],
+	edges: GraphEdge[],
+): GraphEdge[] {
+	const ids = new Set(nodes.map((node) => node.id));
+	return edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target));
+}
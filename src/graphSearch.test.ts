@@ -0,0 +1,144 @@
+import { App, CachedMetadata, TFile } from "obsidian";
+import {
+	QueryNode,
+	QuerySyntaxError,
+	matchesQuery,
+	parseQuery,
+} from "./graphSearch";
+
+/**
+ * A note at `path` whose metadata cache holds `cache`.
+ */
+function note(
+	path: string,
+	cache: Partial<CachedMetadata> = {},
+): { file: TFile; app: App } {
+	const file = { path, name: path.slice(path.lastIndexOf("/") + 1) } as TFile;
+	const app = {
+		metadataCache: { getFileCache: () => cache },
+	} as unknown as App;
+	return { file, app };
+}
+
+function matches(
+	query: string,
+	path: string,
+	cache: Partial<CachedMetadata> = {},
+	matchCase = false,
+): boolean {
+	const { file, app } = note(path, cache);
+	return matchesQuery(file, parseQuery(query, { matchCase }), app);
+}
+
+function withTags(...tags: string[]): Partial<CachedMetadata> {
+	return { frontmatter: { tags } } as Partial<CachedMetadata>;
+}
+
+describe("regex terms", () => {
+	it("parses /regex/ into a case-insensitive regex term", () => {
+		const query = parseQuery("/^journal/") as QueryNode;
+		expect(query.kind).toBe("term");
+		if (query.kind !== "term") return;
+		expect(query.term.type).toBe("text");
+		expect(query.term.regex?.source).toBe("^journal");
+		expect(query.term.regex?.flags).toBe("i");
+	});
+
+	it("matches the path against the pattern", () => {
+		expect(matches("/^journal\\/\\d{4}/", "Journal/2026-01-01.md")).toBe(
+			true,
+		);
+		expect(matches("/^journal\\/\\d{4}/", "notes/journal/2026.md")).toBe(
+			false,
+		);
+	});
+
+	it("keeps spaces and parentheses inside the pattern", () => {
+		expect(matches("/daily (log|notes)/", "Daily notes/today.md")).toBe(
+			true,
+		);
+	});
+
+	it("applies a prefix to the pattern", () => {
+		const query = parseQuery("path:/^journal\\/2026/") as QueryNode;
+		expect(query.kind === "term" && query.term.type).toBe("path");
+		expect(matches("path:/^journal\\/2026/", "journal/2026/a.md")).toBe(
+			true,
+		);
+		expect(matches("path:/^journal\\/2026/", "journal/2025/a.md")).toBe(
+			false,
+		);
+		expect(matches("file:/^a\\.md$/", "journal/2026/a.md")).toBe(true);
+	});
+
+	it("treats an unterminated leading slash as plain text", () => {
+		expect(parseQuery("/")).toEqual({
+			kind: "term",
+			term: { type: "text", value: "/" },
+		});
+		expect(parseQuery("path:/journal")).toEqual({
+			kind: "term",
+			term: { type: "path", value: "/journal" },
+		});
+		expect(matches("/journal", "notes/journal/a.md")).toBe(true);
+		expect(matches("/journal", "journal.md")).toBe(false);
+	});
+});
+
+describe("exact tags", () => {
+	it("matches the tag and its subtags", () => {
+		expect(matches("tag:#project", "a.md", withTags("project"))).toBe(true);
+		expect(
+			matches("tag:#project", "a.md", withTags("project/child")),
+		).toBe(true);
+	});
+
+	it("does not match tags that only start with the name", () => {
+		expect(matches("tag:#project", "a.md", withTags("projects"))).toBe(
+			false,
+		);
+	});
+
+	it("still matches any substring without the #", () => {
+		expect(matches("tag:pro", "a.md", withTags("projects"))).toBe(true);
+	});
+});
+
+describe("match case", () => {
+	it("ignores case by default", () => {
+		expect(matches("Journal", "journal/a.md")).toBe(true);
+		expect(matches("/^Journal/", "journal/a.md")).toBe(true);
+	});
+
+	it("compares words and regexes case-sensitively when set", () => {
+		expect(matches("Journal", "journal/a.md", {}, true)).toBe(false);
+		expect(matches("Journal", "Journal/a.md", {}, true)).toBe(true);
+		expect(matches("/^Journal/", "journal/a.md", {}, true)).toBe(false);
+		expect(
+			matches("tag:#Project", "a.md", withTags("project"), true),
+		).toBe(false);
+	});
+});
+
+describe("syntax errors", () => {
+	it.each([
+		["(tag:a", "Missing closing parenthesis"],
+		["a OR", "OR needs a search term on both sides"],
+		['"open', "Unterminated quote"],
+		["[status", "Missing closing bracket"],
+		["/(/", "Invalid regular expression"],
+	])("rejects %s", (query, message) => {
+		expect(() => parseQuery(query)).toThrow(QuerySyntaxError);
+		expect(() => parseQuery(query)).toThrow(message);
+	});
+
+	it("reports where the problem is", () => {
+		try {
+			parseQuery("a (b");
+			throw new Error("expected a syntax error");
+		} catch (e) {
+			expect(e).toBeInstanceOf(QuerySyntaxError);
+			expect((e as QuerySyntaxError).position).toBe(2);
+		}
+	});
+});
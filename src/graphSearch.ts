@@ -5,92 +5,502 @@ import { App, TFile, CachedMetadata } from "obsidian";
  *
  * Approximates Obsidian's Graph View search/filter behavior:
  * - Match against file path, aliases, and tags
- * - Case-insensitive partial (substring) matching
- * - Support for tag:, path:, and negation (-) prefixes
- * - Space-separated terms use AND logic
+ * - Case-insensitive partial (substring) matching, with an optional
+ *   match-case mode
+ * - /regex/ terms, also after a prefix like path:/^journal/
+ * - Exact tag matching with tag:#project (includes #project/child subtags)
+ * - Support for tag:, path:, file:, content:, line:, section: and negation (-) prefixes
+ * - Frontmatter property filters like [status:done] or [priority:>2]
+ * - Space-separated terms use AND logic, `OR` between terms uses OR logic
+ * - Parentheses for grouping and "quoted phrases" containing spaces
  */
 
-export type SearchTermType = "text" | "tag" | "path";
+export type SearchTermType =
+	| "text"
+	| "tag"
+	| "path"
+	| "file"
+	| "content"
+	| "property";
+
+/**
+ * Comparison used by property terms. ":" means "contains" for text and
+ * "equals" for numbers; the others compare numbers or dates.
+ */
+export type PropertyOperator = ":" | ">" | ">=" | "<" | "<=";
 
 export interface SearchTerm {
 	type: SearchTermType;
+	// Lowercased unless matchCase is set
 	value: string;
-	negated: boolean;
+	matchCase?: boolean;
+	// Set for /regex/ terms; replaces substring matching
+	regex?: RegExp;
+	// Only set for tag:#name terms; matches the tag and its subtags
+	exact?: boolean;
+	// Only set for "property" terms; an empty value checks existence
+	property?: string;
+	operator?: PropertyOperator;
+}
+
+export type SearchScope = "line" | "section";
+
+export interface ParseOptions {
+	// Compare values and regexes case-sensitively
+	matchCase: boolean;
+}
+
+const DEFAULT_PARSE_OPTIONS: ParseOptions = { matchCase: false };
+
+/**
+ * Expression tree produced by parseQuery().
+ * "scope" nodes evaluate their child against each line or section of the
+ * note body; plain text terms inside them match that line or section.
+ */
+export type QueryNode =
+	| { kind: "term"; term: SearchTerm }
+	| { kind: "not"; child: QueryNode }
+	| { kind: "and"; children: QueryNode[] }
+	| { kind: "or"; children: QueryNode[] }
+	| { kind: "scope"; scope: SearchScope; child: QueryNode };
+
+/**
+ * Thrown by parseQuery() for malformed queries.
+ * `position` is the character offset where the problem was found.
+ */
+export class QuerySyntaxError extends Error {
+	position: number;
+
+	constructor(message: string, position: number) {
+		super(message);
+		this.name = "QuerySyntaxError";
+		this.position = position;
+	}
+}
+
+type FieldType = Exclude<SearchTermType, "text" | "property">;
+
+type Token =
+	| { kind: "lparen" | "rparen" | "or" | "not"; position: number }
+	| { kind: "term"; term: SearchTerm; position: number }
+	// A prefix directly followed by "(", e.g. path:( or line:(
+	| { kind: "field"; field: FieldType | SearchScope; position: number };
+
+const TERM_PREFIXES: FieldType[] = ["tag", "path", "file", "content"];
+const SCOPE_PREFIXES: SearchScope[] = ["line", "section"];
+
+/**
+ * Build a term from raw query text, applying the case mode.
+ */
+function makeTerm(
+	type: SearchTermType,
+	value: string,
+	options: ParseOptions,
+): SearchTerm {
+	const term: SearchTerm = {
+		type,
+		value: options.matchCase ? value : value.toLowerCase(),
+	};
+	if (options.matchCase) term.matchCase = true;
+	return term;
+}
+
+/**
+ * Build a /regex/ term. `position` is used for the error on invalid patterns.
+ */
+function makeRegexTerm(
+	type: SearchTermType,
+	pattern: string,
+	options: ParseOptions,
+	position: number,
+): SearchTerm {
+	const term = makeTerm(type, pattern, options);
+	try {
+		term.regex = new RegExp(pattern, options.matchCase ? "" : "i");
+	} catch {
+		throw new QuerySyntaxError("Invalid regular expression", position);
+	}
+	return term;
+}
+
+/**
+ * Give a plain text term a field type, e.g. for words inside tag:( ... ).
+ * A leading "#" on a tag value switches to exact tag matching.
+ */
+function withField(term: SearchTerm, field: FieldType): SearchTerm {
+	const typed = { ...term, type: field };
+	if (field === "tag" && !typed.regex && typed.value.startsWith("#")) {
+		typed.value = typed.value.slice(1);
+		typed.exact = true;
+	}
+	return typed;
+}
+
+/**
+ * Parse the inside of a property filter, e.g. "status:done", "priority:>2",
+ * "status:/^do/" or "due". Values may be quoted.
+ */
+function parseProperty(
+	inner: string,
+	position: number,
+	options: ParseOptions,
+): SearchTerm {
+	const match = inner.match(/^\s*([^:]+?)\s*(?::\s*(>=|<=|>|<)?\s*(.*?))?\s*$/);
+	if (!match || !match[1]) {
+		throw new QuerySyntaxError("Expected a property name", position);
+	}
+	const operator = (match[2] as PropertyOperator | undefined) ?? ":";
+	const raw = match[3] ?? "";
+	const regexMatch = operator === ":" ? raw.match(/^\/(.+)\/$/) : null;
+	const term = regexMatch
+		? makeRegexTerm("property", regexMatch[1], options, position)
+		: makeTerm("property", raw.replace(/^"(.*)"$/, "$1"), options);
+	term.property = match[1].toLowerCase();
+	term.operator = operator;
+	return term;
 }
 
 /**
- * Parse a search query string into structured terms.
+ * Split a query into tokens. Words end at whitespace, parentheses, brackets
+ * or quotes; a quoted phrase, /regex/ or group may directly follow a prefix.
+ */
+function tokenize(query: string, options: ParseOptions): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	// Returns the prefix ("" or e.g. "path:") and the index of the closing
+	// slash when a regex starts at `pos`. Without a closing slash the text
+	// is a plain word, e.g. path:/journal
+	const readRegex = (pos: number): { prefix: string; end: number } | null => {
+		const match = query
+			.slice(pos)
+			.match(/^(?:(tag|path|file|content|line|section):)?\//);
+		if (!match) return null;
+		const prefix = match[0].slice(0, -1);
+		let end = pos + prefix.length + 1;
+		while (end < query.length && query[end] !== "/") {
+			end += query[end] === "\\" ? 2 : 1;
+		}
+		return end < query.length ? { prefix, end } : null;
+	};
+
+	const readUntil = (
+		start: number,
+		close: string,
+		message: string,
+	): { value: string; end: number } => {
+		const end = query.indexOf(close, start + 1);
+		if (end === -1) {
+			throw new QuerySyntaxError(message, start);
+		}
+		return { value: query.slice(start + 1, end), end: end + 1 };
+	};
+
+	while (i < query.length) {
+		const ch = query[i];
+		const regex = readRegex(i);
+
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === "(") {
+			tokens.push({ kind: "lparen", position: i++ });
+		} else if (ch === ")") {
+			tokens.push({ kind: "rparen", position: i++ });
+		} else if (
+			ch === "-" &&
+			i + 1 < query.length &&
+			!/\s/.test(query[i + 1])
+		) {
+			tokens.push({ kind: "not", position: i++ });
+		} else if (ch === '"') {
+			const { value, end } = readUntil(i, '"', "Unterminated quote");
+			tokens.push({
+				kind: "term",
+				term: makeTerm("text", value, options),
+				position: i,
+			});
+			i = end;
+		} else if (regex) {
+			// /regex/ or prefix:/regex/, which may contain spaces and parens
+			const start = i;
+			const { prefix, end } = regex;
+			const pattern = query.slice(start + prefix.length + 1, end);
+			i = end + 1;
+			const field = prefix.slice(0, -1);
+			if ((SCOPE_PREFIXES as string[]).includes(field)) {
+				tokens.push({
+					kind: "field",
+					field: field as SearchScope,
+					position: start,
+				});
+			}
+			const type = (TERM_PREFIXES as string[]).includes(field)
+				? (field as FieldType)
+				: "text";
+			tokens.push({
+				kind: "term",
+				term: makeRegexTerm(type, pattern, options, start),
+				position: start,
+			});
+		} else if (ch === "[") {
+			const { value, end } = readUntil(
+				i,
+				"]",
+				"Missing closing bracket",
+			);
+			tokens.push({
+				kind: "term",
+				term: parseProperty(value, i, options),
+				position: i,
+			});
+			i = end;
+		} else {
+			const start = i;
+			while (i < query.length && !/[\s()"[\]]/.test(query[i])) i++;
+			const word = query.slice(start, i);
+
+			if (word === "OR") {
+				tokens.push({ kind: "or", position: start });
+				continue;
+			}
+
+			const prefix = [...TERM_PREFIXES, ...SCOPE_PREFIXES].find((p) =>
+				word.startsWith(`${p}:`),
+			);
+			let value = prefix ? word.slice(prefix.length + 1) : word;
+			if (prefix && value === "" && query[i] === "(") {
+				tokens.push({ kind: "field", field: prefix, position: start });
+				continue;
+			}
+			if (prefix && value === "" && query[i] === '"') {
+				// Quoted value, e.g. path:"Daily Notes"
+				const quoted = readUntil(i, '"', "Unterminated quote");
+				value = quoted.value;
+				i = quoted.end;
+			}
+
+			// A bare prefix like "tag:" is treated as plain text
+			if (!prefix || value === "") {
+				tokens.push({
+					kind: "term",
+					term: makeTerm("text", word, options),
+					position: start,
+				});
+			} else if ((SCOPE_PREFIXES as string[]).includes(prefix)) {
+				// line:word is shorthand for line:(word)
+				tokens.push({
+					kind: "field",
+					field: prefix,
+					position: start,
+				});
+				tokens.push({
+					kind: "term",
+					term: makeTerm("text", value, options),
+					position: start + prefix.length + 1,
+				});
+			} else {
+				tokens.push({
+					kind: "term",
+					term: withField(
+						makeTerm("text", value, options),
+						prefix as FieldType,
+					),
+					position: start,
+				});
+			}
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Parse a search query string into an expression tree.
  *
  * Grammar:
- *   - Space-separated tokens are AND'd together
- *   - `tag:xxx` filters by tag (matches #xxx)
- *   - `path:xxx` filters by file path
- *   - `-xxx` excludes items matching "xxx"
- *   - `-tag:xxx` excludes items with tag #xxx
- *   - `-path:xxx` excludes items in path xxx
- *   - Plain text matches against path + aliases
+ *   query   := or
+ *   or      := and ("OR" and)*
+ *   and     := unary unary*          (space-separated terms are AND'd)
+ *   unary   := "-" unary | primary
+ *   primary := "(" or ")" | field | term
+ *   field   := prefix "(" or ")" | scope ":" term
+ *   term    := [prefix ":"] (word | "quoted phrase" | /regex/)
+ *            | "[" property [":" ([op] value | /regex/)] "]"
+ *   prefix  := "tag" | "path" | "file" | "content" | scope
+ *   scope   := "line" | "section"
+ *
+ * Plain text matches against path + aliases, `tag:` matches #tags, `path:`
+ * the file path, `file:` the file name and `content:` the note body.
+ * `line:` and `section:` require their terms to match within a single line
+ * or heading section. Inside `prefix:( ... )`, plain words use that prefix.
+ * `tag:#name` matches #name and #name/child but not #names. Matching is
+ * case-insensitive unless `options.matchCase` is set.
+ * Returns null for an empty query.
+ *
+ * @throws QuerySyntaxError for unbalanced parentheses or brackets,
+ * dangling OR/-, unterminated quotes or invalid regular expressions
  *
  * @example
- * parseQuery("foo tag:project -archive")
+ * parseQuery('foo (tag:project OR path:"Daily Notes") -[status:done]')
  * // Returns:
- * // [
- * //   { type: "text", value: "foo", negated: false },
- * //   { type: "tag", value: "project", negated: false },
- * //   { type: "text", value: "archive", negated: true }
- * // ]
- */
-export function parseQuery(query: string): SearchTerm[] {
-	const terms: SearchTerm[] = [];
-	const tokens = query.trim().split(/\s+/).filter(Boolean);
-
-	for (const token of tokens) {
-		let current = token;
-		let negated = false;
-
-		// Check for negation prefix
-		if (current.startsWith("-") && current.length > 1) {
-			negated = true;
-			current = current.slice(1);
-		}
-
-		// Check for type prefixes
-		if (current.startsWith("tag:") && current.length > 4) {
-			terms.push({
-				type: "tag",
-				value: current.slice(4).toLowerCase(),
-				negated,
-			});
-		} else if (current.startsWith("path:") && current.length > 5) {
-			terms.push({
-				type: "path",
-				value: current.slice(5).toLowerCase(),
-				negated,
-			});
-		} else if (current.length > 0) {
-			terms.push({
-				type: "text",
-				value: current.toLowerCase(),
-				negated,
-			});
+ * // { kind: "and", children: [
+ * //   { kind: "term", term: { type: "text", value: "foo" } },
+ * //   { kind: "or", children: [
+ * //     { kind: "term", term: { type: "tag", value: "project" } },
+ * //     { kind: "term", term: { type: "path", value: "daily notes" } } ] },
+ * //   { kind: "not", child: { kind: "term", term:
+ * //     { type: "property", property: "status", operator: ":", value: "done" } } } ] }
+ */
+export function parseQuery(
+	query: string,
+	options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): QueryNode | null {
+	const tokens = tokenize(query, options);
+	if (tokens.length === 0) {
+		return null;
+	}
+
+	let index = 0;
+	const peek = (): Token | undefined => tokens[index];
+	const endPosition = query.length;
+
+	// `field` is the prefix applied to plain words inside a prefix group
+	const parseOr = (field?: FieldType): QueryNode => {
+		const children = [parseAnd(field)];
+		let token = peek();
+		while (token?.kind === "or") {
+			index++;
+			if (!peek()) {
+				throw new QuerySyntaxError(
+					"OR needs a search term on both sides",
+					token.position,
+				);
+			}
+			children.push(parseAnd(field));
+			token = peek();
+		}
+		return children.length === 1 ? children[0] : { kind: "or", children };
+	};
+
+	const parseAnd = (field?: FieldType): QueryNode => {
+		const children = [parseUnary(field)];
+		let next = peek();
+		while (next && next.kind !== "or" && next.kind !== "rparen") {
+			children.push(parseUnary(field));
+			next = peek();
+		}
+		return children.length === 1 ? children[0] : { kind: "and", children };
+	};
+
+	const parseUnary = (field?: FieldType): QueryNode => {
+		const token = peek();
+		if (token?.kind === "not") {
+			index++;
+			return { kind: "not", child: parseUnary(field) };
+		}
+		return parsePrimary(field);
+	};
+
+	const parseGroup = (field?: FieldType): QueryNode => {
+		const open = peek();
+		if (open?.kind !== "lparen") {
+			return parsePrimary(field);
 		}
+		index++;
+		const inner = parseOr(field);
+		if (peek()?.kind !== "rparen") {
+			throw new QuerySyntaxError(
+				"Missing closing parenthesis",
+				open.position,
+			);
+		}
+		index++;
+		return inner;
+	};
+
+	const parsePrimary = (field?: FieldType): QueryNode => {
+		const token = peek();
+		if (!token) {
+			throw new QuerySyntaxError("Expected a search term", endPosition);
+		}
+		switch (token.kind) {
+			case "term": {
+				index++;
+				const term =
+					field && token.term.type === "text"
+						? withField(token.term, field)
+						: token.term;
+				return { kind: "term", term };
+			}
+			case "lparen":
+				return parseGroup(field);
+			case "field": {
+				index++;
+				if ((SCOPE_PREFIXES as string[]).includes(token.field)) {
+					return {
+						kind: "scope",
+						scope: token.field as SearchScope,
+						child: parseGroup(),
+					};
+				}
+				return parseGroup(token.field as FieldType);
+			}
+			case "or":
+				throw new QuerySyntaxError(
+					"OR needs a search term on both sides",
+					token.position,
+				);
+			default:
+				throw new QuerySyntaxError(
+					`Unexpected "${query[token.position]}"`,
+					token.position,
+				);
+		}
+	};
+
+	const root = parseOr();
+	const leftover = peek();
+	if (leftover) {
+		throw new QuerySyntaxError(
+			`Unexpected "${query[leftover.position]}"`,
+			leftover.position,
+		);
 	}
+	return root;
+}
 
-	return terms;
+/**
+ * Check whether evaluating a query needs the note body, so callers only
+ * read file contents when necessary.
+ */
+export function queryNeedsContent(query: QueryNode | null): boolean {
+	if (!query) return false;
+	switch (query.kind) {
+		case "term":
+			return query.term.type === "content";
+		case "not":
+			return queryNeedsContent(query.child);
+		case "and":
+		case "or":
+			return query.children.some(queryNeedsContent);
+		case "scope":
+			return true;
+	}
 }
 
 /**
  * Extract all tags from a file's metadata cache.
  * Combines inline tags (#tag) and frontmatter tags.
- * Returns lowercase tag names without the # prefix.
+ * Returns tag names as written, without the # prefix.
  */
-function extractTags(cache: CachedMetadata | null): string[] {
+export function extractTags(cache: CachedMetadata | null): string[] {
 	const tags: string[] = [];
 
 	// Inline tags from content (e.g., #project)
 	if (cache?.tags) {
 		for (const tagRef of cache.tags) {
 			// tagRef.tag includes the # prefix, e.g., "#project"
-			tags.push(tagRef.tag.slice(1).toLowerCase());
+			tags.push(tagRef.tag.slice(1));
 		}
 	}
 
@@ -101,11 +511,11 @@ function extractTags(cache: CachedMetadata | null): string[] {
 			for (const t of fmTags) {
 				if (typeof t === "string") {
 					// Remove # if present
-					tags.push(t.replace(/^#/, "").toLowerCase());
+					tags.push(t.replace(/^#/, ""));
 				}
 			}
 		} else if (typeof fmTags === "string") {
-			tags.push(fmTags.replace(/^#/, "").toLowerCase());
+			tags.push(fmTags.replace(/^#/, ""));
 		}
 	}
 
@@ -114,7 +524,7 @@ function extractTags(cache: CachedMetadata | null): string[] {
 
 /**
  * Extract aliases from a file's frontmatter.
- * Returns lowercase alias strings.
+ * Returns alias strings as written.
  */
 function extractAliases(cache: CachedMetadata | null): string[] {
 	const aliases: string[] = [];
@@ -124,44 +534,159 @@ function extractAliases(cache: CachedMetadata | null): string[] {
 		if (Array.isArray(fmAliases)) {
 			for (const a of fmAliases) {
 				if (typeof a === "string") {
-					aliases.push(a.toLowerCase());
+					aliases.push(a);
 				}
 			}
 		} else if (typeof fmAliases === "string") {
-			aliases.push(fmAliases.toLowerCase());
+			aliases.push(fmAliases);
 		}
 	}
 
 	return aliases;
 }
 
+/**
+ * Everything about a file that terms can match against, computed once per
+ * file. Strings keep their original case; `body` excludes frontmatter.
+ */
+interface MatchContext {
+	filePath: string;
+	fileName: string;
+	aliases: string[];
+	tags: string[];
+	frontmatter: Record<string, unknown>;
+	body: string | null;
+	cache: CachedMetadata | null;
+}
+
+/**
+ * Convert a property value or query value into something comparable:
+ * numbers stay numbers, ISO-like dates become timestamps.
+ */
+function toComparable(value: unknown): number | string | null {
+	if (typeof value === "number") return value;
+	if (typeof value === "boolean") return String(value);
+	if (typeof value !== "string") return null;
+	const trimmed = value.trim();
+	if (trimmed !== "" && !isNaN(Number(trimmed))) return Number(trimmed);
+	if (/^\d{4}-\d{2}(-\d{2})?/.test(trimmed)) {
+		const time = Date.parse(trimmed);
+		if (!isNaN(time)) return time;
+	}
+	return trimmed.toLowerCase();
+}
+
+/**
+ * Match text against a term's regex, or else by substring, ignoring case
+ * unless the term asks to match it.
+ */
+function textMatches(text: string, term: SearchTerm): boolean {
+	if (term.regex) {
+		return term.regex.test(text);
+	}
+	return (term.matchCase ? text : text.toLowerCase()).includes(term.value);
+}
+
+/**
+ * Check whether `tag` is the term's tag or one of its nested subtags.
+ */
+function tagIsWithin(tag: string, term: SearchTerm): boolean {
+	const name = term.matchCase ? tag : tag.toLowerCase();
+	return name === term.value || name.startsWith(`${term.value}/`);
+}
+
+/**
+ * Compare a frontmatter value against a property term.
+ * Lists match if any element matches.
+ */
+function propertyMatches(actual: unknown, term: SearchTerm): boolean {
+	if (actual === undefined || actual === null) return false;
+	if (Array.isArray(actual)) {
+		return actual.some((item) => propertyMatches(item, term));
+	}
+	// [property] or [property:] only checks that the property is set
+	if (term.operator === ":" && term.value === "") return true;
+
+	const left = toComparable(actual);
+	const right = toComparable(term.value);
+	if (left === null || right === null) return false;
+
+	if (term.operator === ":") {
+		if (
+			!term.regex &&
+			typeof left === "number" &&
+			typeof right === "number"
+		) {
+			return left === right;
+		}
+		return textMatches(String(actual), term);
+	}
+
+	// Ordering only makes sense between two numbers (or two dates)
+	if (typeof left !== "number" || typeof right !== "number") return false;
+	switch (term.operator) {
+		case ">":
+			return left > right;
+		case ">=":
+			return left >= right;
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+		default:
+			return false;
+	}
+}
+
 /**
  * Check if a single search term matches the file.
+ * Inside a line/section scope, `scopeText` replaces the path and aliases
+ * as the target of plain text and content terms.
  */
 function termMatches(
 	term: SearchTerm,
-	filePath: string,
-	aliases: string[],
-	tags: string[],
+	ctx: MatchContext,
+	scopeText?: string,
 ): boolean {
-	const value = term.value;
-
 	switch (term.type) {
 		case "tag":
-			// Match if any tag contains the search value (substring match)
-			return tags.some((tag) => tag.includes(value));
+			// Exact terms match the tag and its subtags; others any substring
+			return ctx.tags.some((tag) =>
+				term.exact ? tagIsWithin(tag, term) : textMatches(tag, term),
+			);
 
 		case "path":
 			// Match against file path only
-			return filePath.includes(value);
+			return textMatches(ctx.filePath, term);
+
+		case "file":
+			// Match against the file name only
+			return textMatches(ctx.fileName, term);
+
+		case "content":
+			if (scopeText !== undefined) {
+				return textMatches(scopeText, term);
+			}
+			return ctx.body !== null && textMatches(ctx.body, term);
+
+		case "property": {
+			// Property names are matched case-insensitively
+			const key = Object.keys(ctx.frontmatter).find(
+				(k) => k.toLowerCase() === term.property,
+			);
+			return key !== undefined && propertyMatches(ctx.frontmatter[key], term);
+		}
 
 		case "text":
+			if (scopeText !== undefined) {
+				return textMatches(scopeText, term);
+			}
 			// Match against file path OR any alias
 			// Approximates Graph View behavior: searches filename/path and aliases
-			if (filePath.includes(value)) {
+			if (textMatches(ctx.filePath, term)) {
 				return true;
 			}
-			if (aliases.some((alias) => alias.includes(value))) {
+			if (ctx.aliases.some((alias) => textMatches(alias, term))) {
 				return true;
 			}
 			return false;
@@ -172,47 +697,95 @@ function termMatches(
 }
 
 /**
- * Check if a file matches all search terms.
+ * Split the note body into heading sections. Each section includes its
+ * heading line; text before the first heading is its own section.
+ */
+function splitSections(
+	ctx: MatchContext,
+	body: string,
+	bodyStart: number,
+): string[] {
+	const starts = (ctx.cache?.headings ?? [])
+		.map((h) => h.position.start.offset - bodyStart)
+		.filter((offset) => offset > 0);
+	const sections: string[] = [];
+	let previous = 0;
+	for (const start of starts) {
+		sections.push(body.slice(previous, start));
+		previous = start;
+	}
+	sections.push(body.slice(previous));
+	return sections;
+}
+
+/**
+ * Check if a file matches a parsed query.
  *
  * Logic:
- *   - All non-negated terms must match (AND)
- *   - If ANY negated term matches, the file is excluded
- *   - Empty query matches all files
+ *   - "and" nodes require every child to match
+ *   - "or" nodes require at least one child to match
+ *   - "not" nodes invert their child
+ *   - "scope" nodes match if any single line/section matches their child
+ *   - A null (empty) query matches all files
  *
  * @param file - The file to check
- * @param terms - Parsed search terms from parseQuery()
+ * @param query - Expression tree from parseQuery()
  * @param app - Obsidian App instance for accessing metadataCache
+ * @param content - Raw file content; required when queryNeedsContent()
+ *   is true, otherwise content terms never match
  */
 export function matchesQuery(
 	file: TFile,
-	terms: SearchTerm[],
+	query: QueryNode | null,
 	app: App,
+	content?: string,
 ): boolean {
 	// Empty query matches everything
-	if (terms.length === 0) {
+	if (!query) {
 		return true;
 	}
 
 	const cache = app.metadataCache.getFileCache(file);
-	const filePath = file.path.toLowerCase();
-	const aliases = extractAliases(cache);
-	const tags = extractTags(cache);
+	const bodyStart = cache?.frontmatterPosition?.end.offset ?? 0;
+	const ctx: MatchContext = {
+		filePath: file.path,
+		fileName: file.name,
+		aliases: extractAliases(cache),
+		tags: extractTags(cache),
+		frontmatter: cache?.frontmatter ?? {},
+		body: content !== undefined ? content.slice(bodyStart) : null,
+		cache,
+	};
 
-	for (const term of terms) {
-		const matches = termMatches(term, filePath, aliases, tags);
+	// Lines and sections are only split when a scope needs them
+	let lines: string[] | null = null;
+	let sections: string[] | null = null;
+	const getScopeTexts = (scope: SearchScope): string[] => {
+		if (ctx.body === null) return [];
+		if (scope === "line") {
+			lines = lines ?? ctx.body.split("\n");
+			return lines;
+		}
+		sections = sections ?? splitSections(ctx, ctx.body, bodyStart);
+		return sections;
+	};
 
-		if (term.negated) {
-			// Negated term: if it matches, exclude the file
-			if (matches) {
-				return false;
-			}
-		} else {
-			// Positive term: must match
-			if (!matches) {
-				return false;
-			}
+	const evaluate = (node: QueryNode, scopeText?: string): boolean => {
+		switch (node.kind) {
+			case "term":
+				return termMatches(node.term, ctx, scopeText);
+			case "not":
+				return !evaluate(node.child, scopeText);
+			case "and":
+				return node.children.every((c) => evaluate(c, scopeText));
+			case "or":
+				return node.children.some((c) => evaluate(c, scopeText));
+			case "scope":
+				return getScopeTexts(node.scope).some((text) =>
+					evaluate(node.child, text),
+				);
 		}
-	}
+	};
 
-	return true;
+	return evaluate(query);
 }
@@ -0,0 +1,190 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import {
+	folderNodeId,
+	folderPathFromId,
+	isFolderNodeId,
+	parentFolderPath,
+} from "./folderNodes";
+import { LayoutName, LayoutSettings, NodePosition } from "./types";
+
+/**
+ * Layouts Module
+ *
+ * Settings and helpers for the layouts besides the continuous force
+ * simulation. Cytoscape provides the radial, grid, concentric and cola
+ * layouts; the tree layout is computed here because its hierarchy (folders
+ * or an `up:`-style property) isn't made of graph edges.
+ */
+
+export const LAYOUT_NAMES: Record<LayoutName, string> = {
+	force: "Force",
+	tree: "Tree",
+	radial: "Radial",
+	grid: "Grid",
+	concentric: "Concentric",
+	cola: "Cola",
+};
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+	name: "force",
+	treeSource: "folder",
+	treeProperty: "up",
+	radialSpacing: 1.5,
+	gridSortProperty: "",
+	concentricSpacing: 40,
+	colaNodeSpacing: 20,
+	colaEdgeLength: 200,
+};
+
+/**
+ * Parent of each node in the tree layout's hierarchy, or null for roots.
+ *
+ * With the "folder" source every file hangs below its folder, and folders
+ * get entries under their folder node ids, drawn or not, that take up room.
+ * With the "property" source a note hangs below the first note linked in
+ * its `property` frontmatter.
+ */
+export function buildTreeParents(
+	app: App,
+	nodeIds: string[],
+	settings: LayoutSettings,
+): Map<string, string | null> {
+	const parents = new Map<string, string | null>();
+	const ids = new Set(nodeIds);
+
+	for (const id of nodeIds) {
+		const file = app.vault.getAbstractFileByPath(id);
+		if (isFolderNodeId(id)) {
+			// Collapsed folders shown as nodes
+			parents.set(
+				id,
+				settings.treeSource === "folder"
+					? addFolder(parents, parentFolderPath(folderPathFromId(id)))
+					: null,
+			);
+		} else if (!(file instanceof TFile)) {
+			// Tag and ghost nodes have no place in the hierarchy
+			parents.set(id, null);
+		} else if (settings.treeSource === "folder") {
+			parents.set(id, addFolder(parents, parentFolderPath(file.path)));
+		} else {
+			parents.set(id, findParentNote(app, file, settings.treeProperty, ids));
+		}
+	}
+	return parents;
+}
+
+/**
+ * Add entries for a folder and its ancestors; returns the folder's id, or
+ * null for the vault root.
+ */
+function addFolder(
+	parents: Map<string, string | null>,
+	path: string,
+): string | null {
+	if (path === "") return null;
+	const id = folderNodeId(path);
+	if (!parents.has(id)) {
+		parents.set(id, addFolder(parents, parentFolderPath(path)));
+	}
+	return id;
+}
+
+function findParentNote(
+	app: App,
+	file: TFile,
+	property: string,
+	ids: Set<string>,
+): string | null {
+	const fmLinks = app.metadataCache.getFileCache(file)?.frontmatterLinks ?? [];
+	for (const fmLink of fmLinks) {
+		// List entries are reported as "key.0", "key.1", ...
+		if (fmLink.key.split(".")[0] !== property) continue;
+		const target = app.metadataCache.getFirstLinkpathDest(
+			getLinkpath(fmLink.link),
+			file.path,
+		);
+		if (target && target.path !== file.path && ids.has(target.path)) {
+			return target.path;
+		}
+	}
+	return null;
+}
+
+/**
+ * Tidy top-down tree: leaves sit side by side `gap.x` apart, parents are
+ * centered over their children and each level is `gap.y` below the last.
+ * Siblings are ordered by id; cycles are broken arbitrarily.
+ */
+export function computeTreePositions(
+	parents: Map<string, string | null>,
+	gap: NodePosition,
+): Map<string, NodePosition> {
+	const children = new Map<string, string[]>();
+	const roots: string[] = [];
+	for (const [id, parent] of parents) {
+		if (parent && parents.has(parent)) {
+			const list = children.get(parent) ?? [];
+			list.push(id);
+			children.set(parent, list);
+		} else {
+			roots.push(id);
+		}
+	}
+
+	const positions = new Map<string, NodePosition>();
+	let nextX = 0;
+	const place = (id: string, depth: number): number => {
+		positions.set(id, { x: 0, y: 0 });
+		const kids = (children.get(id) ?? [])
+			.filter((kid) => !positions.has(kid))
+			.sort();
+		let x: number;
+		if (kids.length === 0) {
+			x = nextX;
+			nextX += gap.x;
+		} else {
+			const xs = kids.map((kid) => place(kid, depth + 1));
+			x = (xs[0] + xs[xs.length - 1]) / 2;
+		}
+		positions.set(id, { x, y: depth * gap.y });
+		return x;
+	};
+
+	roots.sort().forEach((root) => place(root, 0));
+	// Nodes only reachable through a cycle
+	for (const id of [...parents.keys()].sort()) {
+		if (!positions.has(id)) place(id, 0);
+	}
+	return positions;
+}
+
+/**
+ * Compare two files by a frontmatter property for the grid layout.
+ * Numbers sort numerically, everything else as text; files without the
+ * property come last. Ties fall back to `fallback`.
+ */
+export function compareByProperty(
+	app: App,
+	property: string,
+	a: string,
+	b: string,
+	fallback: number,
+): number {
+	const valueOf = (path: string): unknown => {
+		if (!property) return undefined;
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return undefined;
+		return app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+	};
+	const va = valueOf(a);
+	const vb = valueOf(b);
+	if (va === undefined || va === null) {
+		return vb === undefined || vb === null ? fallback : 1;
+	}
+	if (vb === undefined || vb === null) return -1;
+	if (typeof va === "number" && typeof vb === "number") {
+		return va - vb || fallback;
+	}
+	return String(va).localeCompare(String(vb)) || fallback;
+}
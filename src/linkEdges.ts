@@ -0,0 +1,144 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import { EdgeKind, GraphEdge } from "./types";
+import { unresolvedNodeId } from "./unresolvedNodes";
+
+/**
+ * Link Edges Module
+ *
+ * Builds edges from a note's wikilinks, embeds and frontmatter link
+ * properties (e.g. `up: "[[Parent]]"`). Each edge carries its kind so
+ * kinds can be styled and toggled separately. Repeated links of one kind
+ * to the same note are merged into one edge whose `weight` counts them.
+ */
+
+export interface LinkEdgeOptions {
+	// Kind keys (see edgeKindKey) to leave out
+	hiddenKinds: Set<string>;
+	// Add edges to ghost nodes for links to missing notes
+	showUnresolved: boolean;
+	// Frontmatter keys handled as manual relation edges instead
+	relationKeys: Set<string>;
+}
+
+/**
+ * Key identifying an edge kind in toggles: "link", "embed" or
+ * "property:<key>".
+ */
+export function edgeKindKey(kind: EdgeKind, property?: string): string {
+	return kind === "property" ? `property:${property}` : kind;
+}
+
+/**
+ * Build the edge id for a link. Plain links keep the original
+ * `source->target` form so saved layouts stay valid.
+ */
+export function linkEdgeId(
+	kind: EdgeKind,
+	source: string,
+	target: string,
+	property?: string,
+): string {
+	switch (kind) {
+		case "link":
+			return `${source}->${target}`;
+		case "embed":
+			return `embed:${source}->${target}`;
+		case "property":
+			return `property:${property}:${source}->${target}`;
+	}
+}
+
+/**
+ * Id of the edge of the same kind running the other way, used to pair
+ * up mutual links.
+ */
+export function reverseEdgeId(edge: GraphEdge): string | null {
+	if (!edge.kind || edge.source === edge.target) return null;
+	return linkEdgeId(edge.kind, edge.target, edge.source, edge.property);
+}
+
+/**
+ * Frontmatter links are reported per list entry as "key.0", "key.1", ...
+ */
+function propertyKey(fmKey: string): string {
+	return fmKey.split(".")[0];
+}
+
+/**
+ * Build the link, embed and property edges originating from a note, one
+ * per target and kind.
+ */
+export function buildLinkEdges(
+	app: App,
+	file: TFile,
+	options: LinkEdgeOptions,
+): GraphEdge[] {
+	const cache = app.metadataCache.getFileCache(file);
+	const edges = new Map<string, GraphEdge>();
+
+	const addEdge = (linktext: string, kind: EdgeKind, property?: string) => {
+		if (options.hiddenKinds.has(edgeKindKey(kind, property))) return;
+		const linkpath = getLinkpath(linktext);
+		if (!linkpath) return;
+
+		const targetFile = app.metadataCache.getFirstLinkpathDest(
+			linkpath,
+			file.path,
+		);
+		if (!targetFile && !options.showUnresolved) return;
+
+		const target = targetFile
+			? targetFile.path
+			: unresolvedNodeId(linkpath);
+		const id = linkEdgeId(kind, file.path, target, property);
+		const existing = edges.get(id);
+		if (existing) {
+			existing.weight = (existing.weight ?? 1) + 1;
+			return;
+		}
+		edges.set(id, {
+			id,
+			source: file.path,
+			target,
+			kind,
+			property,
+			// Property edges are labeled with their property name
+			label: property,
+			linkpath: targetFile ? undefined : linkpath,
+			weight: 1,
+		});
+	};
+
+	for (const link of cache?.links ?? []) {
+		addEdge(link.link, "link");
+	}
+	for (const embed of cache?.embeds ?? []) {
+		addEdge(embed.link, "embed");
+	}
+	for (const fmLink of cache?.frontmatterLinks ?? []) {
+		const key = propertyKey(fmLink.key);
+		if (options.relationKeys.has(key)) continue;
+		addEdge(fmLink.link, "property", key);
+	}
+
+	return [...edges.values()];
+}
+
+/**
+ * All frontmatter keys in the vault that hold links, excluding manual
+ * relation keys, sorted by name.
+ */
+export function collectPropertyLinkKeys(
+	app: App,
+	relationKeys: Set<string>,
+): string[] {
+	const keys = new Set<string>();
+	for (const file of app.vault.getMarkdownFiles()) {
+		const fmLinks = app.metadataCache.getFileCache(file)?.frontmatterLinks;
+		for (const fmLink of fmLinks ?? []) {
+			const key = propertyKey(fmLink.key);
+			if (!relationKeys.has(key)) keys.add(key);
+		}
+	}
+	return [...keys].sort();
+}
@@ -0,0 +1,76 @@
+import { GraphEdge, LocalGraphOptions } from "./types";
+
+/**
+ * Local Graph Module
+ *
+ * Picks the neighborhood of a focus node: everything reachable within
+ * `depth` hops, following outgoing edges, incoming edges, or both.
+ */
+
+export const DEFAULT_LOCAL_GRAPH: LocalGraphOptions = {
+	enabled: false,
+	depth: 1,
+	incoming: true,
+	outgoing: true,
+};
+
+export const MAX_LOCAL_DEPTH = 5;
+
+/**
+ * Read local graph options from saved view state, falling back to the
+ * defaults for anything missing or malformed.
+ */
+export function parseLocalGraphOptions(state: unknown): LocalGraphOptions {
+	const saved = (state ?? {}) as Partial<Record<keyof LocalGraphOptions, unknown>>;
+	const bool = (value: unknown, fallback: boolean) =>
+		typeof value === "boolean" ? value : fallback;
+	const depth =
+		typeof saved.depth === "number"
+			? Math.min(Math.max(Math.round(saved.depth), 1), MAX_LOCAL_DEPTH)
+			: DEFAULT_LOCAL_GRAPH.depth;
+	return {
+		enabled: bool(saved.enabled, DEFAULT_LOCAL_GRAPH.enabled),
+		depth,
+		incoming: bool(saved.incoming, DEFAULT_LOCAL_GRAPH.incoming),
+		outgoing: bool(saved.outgoing, DEFAULT_LOCAL_GRAPH.outgoing),
+	};
+}
+
+/**
+ * Ids of the nodes within `options.depth` hops of `focus`, including
+ * `focus` itself.
+ */
+export function collectNeighborhood(
+	focus: string,
+	edges: GraphEdge[],
+	options: LocalGraphOptions,
+): Set<string> {
+	const neighbors = new Map<string, string[]>();
+	const link = (from: string, to: string) => {
+		const list = neighbors.get(from);
+		if (list) {
+			list.push(to);
+		} else {
+			neighbors.set(from, [to]);
+		}
+	};
+	for (const edge of edges) {
+		if (options.outgoing) link(edge.source, edge.target);
+		if (options.incoming) link(edge.target, edge.source);
+	}
+
+	const visited = new Set([focus]);
+	let frontier = [focus];
+	for (let hop = 0; hop < options.depth && frontier.length > 0; hop++) {
+		const next: string[] = [];
+		for (const id of frontier) {
+			for (const neighbor of neighbors.get(id) ?? []) {
+				if (visited.has(neighbor)) continue;
+				visited.add(neighbor);
+				next.push(neighbor);
+			}
+		}
+		frontier = next;
+	}
+	return visited;
+}
@@ -0,0 +1,84 @@
+import { Board, PluginData } from "./types";
+import { DEFAULT_SETTINGS, SupergraphSettings } from "./settings";
+import { createBoard } from "./boards";
+
+/**
+ * Migrations Module
+ *
+ * Upgrades whatever `loadData()` returns to the current PluginData shape.
+ * Each entry in MIGRATIONS upgrades data from version `index` to
+ * `index + 1`; append new entries rather than editing existing ones.
+ */
+
+// Stored data before migration has no reliable shape
+type RawData = Record<string, unknown>;
+
+const MIGRATIONS: ((data: RawData) => RawData)[] = [
+	// 0 -> 1: settings were stored flat at the top level, next to either a
+	// single `graphState`/`viewSettings` pair or a `boards` list
+	(data) => {
+		const { boards, lastBoardId, graphState, viewSettings, ...settings } =
+			data;
+		const migratedBoards: Board[] = Array.isArray(boards) ? boards : [];
+		if (migratedBoards.length === 0 && (graphState || viewSettings)) {
+			const fileFilter =
+				typeof settings.fileFilter === "string" ? settings.fileFilter : "";
+			const board = createBoard("Default", fileFilter);
+			board.graphState = (graphState as Board["graphState"]) ?? null;
+			board.viewSettings = (viewSettings as Board["viewSettings"]) ?? null;
+			migratedBoards.push(board);
+		}
+		return { settings, boards: migratedBoards, lastBoardId };
+	},
+	// 1 -> 2: boards gained a case-sensitive search switch
+	(data) => ({
+		...data,
+		boards: (Array.isArray(data.boards) ? data.boards : []).map(
+			(board: Board) => ({ ...board, matchCase: false }),
+		),
+	}),
+];
+
+export const DATA_VERSION = MIGRATIONS.length;
+
+/**
+ * Bring stored data up to DATA_VERSION and fill in defaults.
+ * Data from a newer plugin version is used as-is.
+ */
+export function migratePluginData(raw: unknown): PluginData {
+	let data: RawData =
+		raw && typeof raw === "object" ? (raw as RawData) : {};
+	let version = typeof data.version === "number" ? data.version : 0;
+
+	while (version < DATA_VERSION) {
+		data = MIGRATIONS[version](data);
+		version++;
+	}
+
+	return normalizePluginData(data);
+}
+
+function normalizePluginData(data: RawData): PluginData {
+	const settings: SupergraphSettings = Object.assign(
+		{},
+		DEFAULT_SETTINGS,
+		data.settings,
+	);
+	// Copy nested defaults so editing settings never mutates DEFAULT_SETTINGS
+	settings.relationTypes = settings.relationTypes.map((r) => ({ ...r }));
+	settings.savedQueries = settings.savedQueries.map((q) => ({ ...q }));
+	settings.recentQueries = [...settings.recentQueries];
+
+	const boards: Board[] = Array.isArray(data.boards) ? data.boards : [];
+	if (boards.length === 0) {
+		boards.push(createBoard("Default", settings.fileFilter));
+	}
+
+	const lastBoardId =
+		typeof data.lastBoardId === "string" &&
+		boards.some((b) => b.id === data.lastBoardId)
+			? data.lastBoardId
+			: boards[0].id;
+
+	return { version: DATA_VERSION, settings, boards, lastBoardId };
+}
@@ -0,0 +1,119 @@
+import { App, TFile } from "obsidian";
+import cytoscape from "cytoscape";
+import { SizeMetric } from "./types";
+
+/**
+ * Node Metrics Module
+ *
+ * Graph metrics (degree, PageRank, betweenness) and note metrics (word
+ * count, a numeric frontmatter property) used to size nodes, plus the
+ * mapping from metric values to size scales.
+ */
+
+export const SIZE_METRIC_NAMES: Record<SizeMetric, string> = {
+	uniform: "Uniform",
+	inDegree: "In-degree",
+	outDegree: "Out-degree",
+	pageRank: "PageRank",
+	betweenness: "Betweenness",
+	wordCount: "Word count",
+	property: "Property",
+};
+
+export interface NodeMetrics {
+	inDegree: number;
+	outDegree: number;
+	pageRank: number;
+	// Only computed when sizing by it; it's the slowest by far
+	betweenness?: number;
+	// Notes only
+	wordCount?: number;
+	// Set when sizing by a property the note has as a number
+	property?: number;
+}
+
+/**
+ * Degree and PageRank of every node in `eles`, plus normalized
+ * betweenness when `withBetweenness` is set. Edges count as directed for
+ * degree and PageRank and as undirected for betweenness.
+ */
+export function computeGraphMetrics(
+	eles: cytoscape.Collection,
+	withBetweenness: boolean,
+): Map<string, NodeMetrics> {
+	const pageRank = eles.pageRank({});
+	const betweenness = withBetweenness
+		? eles.betweennessCentrality({ directed: false })
+		: null;
+
+	const metrics = new Map<string, NodeMetrics>();
+	eles.nodes().forEach((node) => {
+		metrics.set(node.id(), {
+			inDegree: node.indegree(false),
+			outDegree: node.outdegree(false),
+			pageRank: pageRank.rank(node),
+			betweenness: betweenness?.betweennessNormalized(node),
+		});
+	});
+	return metrics;
+}
+
+/**
+ * Number of words in a note's body, frontmatter excluded.
+ */
+export async function readWordCount(
+	app: App,
+	file: TFile,
+): Promise<number | undefined> {
+	if (file.extension !== "md") return undefined;
+	let content = await app.vault.cachedRead(file);
+	const frontmatterEnd =
+		app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset;
+	if (frontmatterEnd !== undefined) content = content.slice(frontmatterEnd);
+	return content.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * A frontmatter property as a number, accepting numeric strings.
+ */
+export function readNumericProperty(
+	app: App,
+	file: TFile,
+	key: string,
+): number | undefined {
+	if (!key) return undefined;
+	const value = app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+	const number = typeof value === "string" ? parseFloat(value) : value;
+	return typeof number === "number" && isFinite(number) ? number : undefined;
+}
+
+/**
+ * Map values linearly from their range onto [min, max] after a square
+ * root, so a few huge hubs don't shrink everything else to `min`. Nodes
+ * without a value, or all nodes when the values are all equal, get `min`.
+ */
+export function scaleValues(
+	values: Map<string, number | undefined>,
+	min: number,
+	max: number,
+): Map<string, number> {
+	let low = Infinity;
+	let high = -Infinity;
+	for (const value of values.values()) {
+		if (value === undefined) continue;
+		low = Math.min(low, value);
+		high = Math.max(high, value);
+	}
+	const top = Math.max(max, min);
+
+	const scales = new Map<string, number>();
+	for (const [id, value] of values) {
+		if (value === undefined || !(high > low)) {
+			scales.set(id, min);
+			continue;
+		}
+		const t = Math.sqrt((value - low) / (high - low));
+		scales.set(id, min + (top - min) * t);
+	}
+	return scales;
+}
@@ -0,0 +1,99 @@
+import { GraphEdge } from "./types";
+
+/**
+ * Path Finder Module
+ *
+ * Finds the shortest paths (fewest hops) between two notes along link,
+ * embed and property edges, and optionally manual edges.
+ */
+
+export interface PathOptions {
+	// Follow edges against their direction too
+	undirected: boolean;
+	// Follow manual edges as well as links
+	includeManual: boolean;
+}
+
+export const DEFAULT_PATH_OPTIONS: PathOptions = {
+	undirected: true,
+	includeManual: false,
+};
+
+// Shortest paths listed at most; there can be exponentially many
+export const MAX_PATHS = 5;
+
+/**
+ * Whether a path may follow `edge`: links of any kind, and manual edges
+ * when enabled. Tag and folder edges never count.
+ */
+export function isPathEdge(edge: GraphEdge, options: PathOptions): boolean {
+	return !!edge.kind || (options.includeManual && !!edge.isManual);
+}
+
+/**
+ * Up to `maxPaths` shortest paths from `source` to `target`, each a list
+ * of node ids from source to target. Empty when `target` can't be
+ * reached.
+ */
+export function findShortestPaths(
+	edges: GraphEdge[],
+	source: string,
+	target: string,
+	options: PathOptions,
+	maxPaths = MAX_PATHS,
+): string[][] {
+	if (source === target) return [[source]];
+
+	const neighbors = new Map<string, Set<string>>();
+	const link = (from: string, to: string) => {
+		const set = neighbors.get(from);
+		if (set) {
+			set.add(to);
+		} else {
+			neighbors.set(from, new Set([to]));
+		}
+	};
+	for (const edge of edges) {
+		if (!isPathEdge(edge, options) || edge.source === edge.target) continue;
+		link(edge.source, edge.target);
+		if (options.undirected) link(edge.target, edge.source);
+	}
+
+	// Breadth-first search keeping every predecessor on a shortest path
+	const distance = new Map([[source, 0]]);
+	const predecessors = new Map<string, string[]>();
+	let frontier = [source];
+	while (frontier.length > 0 && !distance.has(target)) {
+		const next: string[] = [];
+		for (const id of [...frontier].sort()) {
+			const hops = (distance.get(id) as number) + 1;
+			for (const neighbor of neighbors.get(id) ?? []) {
+				const known = distance.get(neighbor);
+				if (known === undefined) {
+					distance.set(neighbor, hops);
+					predecessors.set(neighbor, [id]);
+					next.push(neighbor);
+				} else if (known === hops) {
+					predecessors.get(neighbor)?.push(id);
+				}
+			}
+		}
+		frontier = next;
+	}
+	if (!distance.has(target)) return [];
+
+	// Walk back from the target, branching at every shared predecessor
+	const paths: string[][] = [];
+	const walk = (id: string, suffix: string[]) => {
+		if (paths.length >= maxPaths) return;
+		if (id === source) {
+			paths.push([source, ...suffix]);
+			return;
+		}
+		for (const previous of predecessors.get(id) ?? []) {
+			walk(previous, [id, ...suffix]);
+		}
+	};
+	walk(target, []);
+	return paths;
+}
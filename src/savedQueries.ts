@@ -0,0 +1,52 @@
+import { SavedQuery } from "./settings";
+
+/**
+ * Saved Queries Module
+ *
+ * Helpers for named search queries and the recent-query history shown in
+ * search autocomplete. Both are stored in the plugin settings so every
+ * board can use them.
+ */
+
+// Number of recent queries kept for autocomplete
+export const MAX_RECENT_QUERIES = 10;
+
+function generateQueryId(): string {
+	return (
+		Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
+	);
+}
+
+/**
+ * Save `query` under `name`, replacing the query of an existing entry with
+ * the same name (case-insensitive). Returns the saved entry.
+ */
+export function upsertSavedQuery(
+	savedQueries: SavedQuery[],
+	name: string,
+	query: string,
+): SavedQuery {
+	const existing = savedQueries.find(
+		(q) => q.name.toLowerCase() === name.toLowerCase(),
+	);
+	if (existing) {
+		existing.query = query;
+		return existing;
+	}
+	const saved: SavedQuery = { id: generateQueryId(), name, query };
+	savedQueries.push(saved);
+	return saved;
+}
+
+/**
+ * Return a new recent-query list with `query` moved to the front.
+ * Empty queries are not recorded.
+ */
+export function addRecentQuery(recent: string[], query: string): string[] {
+	const trimmed = query.trim();
+	if (!trimmed) return recent;
+	return [trimmed, ...recent.filter((q) => q !== trimmed)].slice(
+		0,
+		MAX_RECENT_QUERIES,
+	);
+}
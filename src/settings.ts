@@ -1,19 +1,66 @@
+/**
+ * A typed relation for manual edges written to frontmatter.
+ * `name` is shown as the edge label, `key` is the frontmatter property.
+ */
+export interface RelationType {
+	name: string;
+	key: string;
+}
+
+/**
+ * A named search query that can be applied from the view panel or the
+ * command palette. `id` keeps its command stable across renames.
+ */
+export interface SavedQuery {
+	id: string;
+	name: string;
+	query: string;
+}
+
+/**
+ * Where board layouts (positions, manual edges, viewport) are stored:
+ * inside the plugin data file, or in a separate JSON file in the vault.
+ */
+export type LayoutStorage = 'plugin' | 'vault';
+
 export interface SupergraphSettings {
 	showAllFiles: boolean;
 	showTags: boolean;
+	showAttachments: boolean;
+	showUnresolved: boolean;
 	showLinks: boolean;
 	maxSnippetLength: number;
 	minZoomForCards: number;
+	minZoomForTitles: number;
 	enableManualEdges: boolean;
+	writeManualEdgesToFrontmatter: boolean;
+	// Frontmatter property that pins a note's node (`pinned: true`)
+	pinProperty: string;
+	relationTypes: RelationType[];
 	fileFilter: string;
+	savedQueries: SavedQuery[];
+	// Most recent first
+	recentQueries: string[];
+	layoutStorage: LayoutStorage;
+	layoutFilePath: string;
 }
 
 export const DEFAULT_SETTINGS: SupergraphSettings = {
 	showAllFiles: true,
 	showTags: true,
+	showAttachments: false,
+	showUnresolved: false,
 	showLinks: true,
 	maxSnippetLength: 150,
 	minZoomForCards: 0.5,
+	minZoomForTitles: 0.25,
 	enableManualEdges: true,
-	fileFilter: ''
+	writeManualEdgesToFrontmatter: false,
+	pinProperty: 'pinned',
+	relationTypes: [{ name: 'related', key: 'related' }],
+	fileFilter: '',
+	savedQueries: [],
+	recentQueries: [],
+	layoutStorage: 'plugin',
+	layoutFilePath: 'layouts.supergraph'
 };
@@ -0,0 +1,99 @@
+import { App, TFile } from "obsidian";
+import { GraphEdge, GraphNode } from "./types";
+import { extractTags } from "./graphSearch";
+
+/**
+ * Tag Nodes Module
+ *
+ * Builds hub nodes for tags with an edge to every note carrying them.
+ * Nested tags like #project/alpha get a node per level, linked to their
+ * parent tag, and notes link only to their most specific tag.
+ */
+
+/**
+ * Node id for a tag. Colons can't appear in note paths, so these never
+ * collide with note ids.
+ */
+export function tagNodeId(tag: string): string {
+	return `tag:${tag}`;
+}
+
+/**
+ * Tags of a file, lowercased and deduplicated. Obsidian treats tags
+ * case-insensitively, so #Project and #project share one node.
+ */
+export function getFileTags(app: App, file: TFile): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	return [...new Set(extractTags(cache).map((tag) => tag.toLowerCase()))];
+}
+
+/**
+ * A tag and all of its ancestors, e.g. "a/b/c" -> ["a", "a/b", "a/b/c"].
+ */
+export function getTagHierarchy(tag: string): string[] {
+	const parts = tag.split("/").filter((part) => part);
+	return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+export function buildTagNode(tag: string): GraphNode {
+	return {
+		id: tagNodeId(tag),
+		label: `#${tag}`,
+		snippet: "",
+		kind: "tag",
+		tag,
+	};
+}
+
+/**
+ * Edges from the file's tags to the file.
+ */
+export function buildNoteTagEdges(app: App, file: TFile): GraphEdge[] {
+	return getFileTags(app, file).map((tag) => ({
+		id: `${tagNodeId(tag)}->${file.path}`,
+		source: tagNodeId(tag),
+		target: file.path,
+		isTag: true,
+	}));
+}
+
+/**
+ * Edge from a nested tag's parent to the tag, or null for top-level tags.
+ */
+export function buildTagParentEdge(tag: string): GraphEdge | null {
+	const slash = tag.lastIndexOf("/");
+	if (slash <= 0) return null;
+	const parent = tag.slice(0, slash);
+	return {
+		id: `${tagNodeId(parent)}->${tagNodeId(tag)}`,
+		source: tagNodeId(parent),
+		target: tagNodeId(tag),
+		isTag: true,
+	};
+}
+
+/**
+ * Tag nodes and edges for a set of notes. Only tags used by these notes
+ * (and their parents) are included.
+ */
+export function buildTagGraph(
+	app: App,
+	files: TFile[],
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+	const tags = new Set<string>();
+	const edges: GraphEdge[] = [];
+
+	for (const file of files) {
+		edges.push(...buildNoteTagEdges(app, file));
+		for (const tag of getFileTags(app, file)) {
+			getTagHierarchy(tag).forEach((level) => tags.add(level));
+		}
+	}
+
+	for (const tag of tags) {
+		const parentEdge = buildTagParentEdge(tag);
+		if (parentEdge) edges.push(parentEdge);
+	}
+
+	return { nodes: [...tags].map(buildTagNode), edges };
+}
@@ -1,13 +1,38 @@
+import { TFile } from "obsidian";
+import { SupergraphSettings } from "./settings";
+
 export interface NodePosition {
 	x: number;
 	y: number;
 }
 
+/**
+ * Node types besides notes. Notes leave `kind` unset.
+ */
+export type NodeKind = "tag" | "attachment" | "unresolved" | "folder";
+
 export interface GraphNode {
 	id: string;
 	label: string;
 	snippet: string;
 	position?: NodePosition;
+	kind?: NodeKind;
+	// Color of the first matching color group; recomputed, not persisted
+	groupColor?: string;
+	// Set for tag nodes: the lowercase tag name without "#"
+	tag?: string;
+	// Set for image attachments: resource URL of the image
+	thumbnail?: string;
+	// Set for unresolved nodes: the link text of the missing note
+	linkpath?: string;
+	// Kept in place by the layout; saved with the board
+	pinned?: boolean;
+	// Id of the folder node this node is drawn inside; recomputed, not persisted
+	parent?: string;
+	// Set for folder nodes drawn as a single summary node
+	collapsed?: boolean;
+	// Set for collapsed folders: number of notes inside
+	noteCount?: number;
 }
 
 export interface GraphEdge {
@@ -15,6 +40,137 @@ export interface GraphEdge {
 	source: string;
 	target: string;
 	isManual?: boolean;
+	label?: string;
+	color?: string;
+	// Frontmatter key the edge is stored under, for manual edges kept in notes
+	relation?: string;
+	// Tag-to-note and parent-to-child tag edges
+	isTag?: boolean;
+	// Set for links to a missing note: the link text
+	linkpath?: string;
+	// Set for edges built from note links
+	kind?: EdgeKind;
+	// Set for property edges: the frontmatter key holding the link
+	property?: string;
+	// Number of links this edge stands for; unset counts as 1
+	weight?: number;
+	// Set on the drawn edge of a mutual pair, whose reverse edge is hidden;
+	// recomputed, not persisted
+	bidirectional?: boolean;
+	// Stands for the links between a collapsed folder and another node
+	isFolder?: boolean;
+}
+
+/**
+ * How a note links to another: a wikilink in the body, an embed, or a
+ * link in a frontmatter property.
+ */
+export type EdgeKind = "link" | "embed" | "property";
+
+/**
+ * What notes are sized by. "property" reads a numeric frontmatter property.
+ */
+export type SizeMetric =
+	| "uniform"
+	| "inDegree"
+	| "outDegree"
+	| "pageRank"
+	| "betweenness"
+	| "wordCount"
+	| "property";
+
+// Display settings - user-configurable via UI sliders
+export interface DisplaySettings {
+	nodeSize: number;
+	linkThickness: number;
+	showArrows: boolean;
+	showOrphans: boolean;
+	cardWidth: number;
+	cardHeight: number;
+	snippetLength: number;
+	// Edge kinds left out of the graph, as "link", "embed" or "property:<key>"
+	hiddenEdgeKinds: string[];
+	// Draw folders as groups around their notes
+	showFolders: boolean;
+	// Color nodes by detected community instead of by color group
+	colorByCommunity: boolean;
+	// Scale notes by a metric, between minScale and maxScale times their size
+	sizeBy: SizeMetric;
+	// Numeric frontmatter property used when sizeBy is "property"
+	sizeProperty: string;
+	minScale: number;
+	maxScale: number;
+}
+
+/**
+ * Force settings - user-configurable via UI sliders.
+ *
+ * These values are multiplied with PHYSICS constants to produce final d3-force values:
+ *   - centerForce: Pull toward center (0 = none, 1 = strong)
+ *   - repelForce: Push nodes apart (0 = none, higher = stronger repulsion)
+ *   - linkForce: How strongly edges pull connected nodes together (0-2)
+ *   - linkDistance: Target distance between connected nodes (px)
+ */
+export interface ForceSettings {
+	centerForce: number;
+	repelForce: number;
+	linkForce: number;
+	linkDistance: number;
+}
+
+/**
+ * A search query whose matching nodes are drawn in `color` (hex).
+ * Groups are ordered; the first match wins.
+ */
+export interface ColorGroup {
+	query: string;
+	color: string;
+}
+
+export type LayoutName =
+	| "force"
+	| "tree"
+	| "radial"
+	| "grid"
+	| "concentric"
+	| "cola";
+
+/**
+ * The layout picked in the panel plus the settings of each layout, so
+ * switching back and forth keeps them.
+ */
+export interface LayoutSettings {
+	name: LayoutName;
+	// Tree: hierarchy from folders or from a frontmatter link property
+	treeSource: "folder" | "property";
+	treeProperty: string;
+	// Radial: distance between rings, relative to node size
+	radialSpacing: number;
+	// Grid: frontmatter property to sort by; empty sorts by title
+	gridSortProperty: string;
+	// Concentric: minimum gap between nodes (px)
+	concentricSpacing: number;
+	// Cola: minimum gap between nodes (px) and ideal edge length (px)
+	colaNodeSpacing: number;
+	colaEdgeLength: number;
+}
+
+export interface ViewSettings {
+	display: DisplaySettings;
+	forces: ForceSettings;
+	groups: ColorGroup[];
+	layout: LayoutSettings;
+}
+
+/**
+ * Local mode shows only the active note and its neighbors out to `depth`
+ * hops along incoming and/or outgoing edges. Kept per view, not per board.
+ */
+export interface LocalGraphOptions {
+	enabled: boolean;
+	depth: number;
+	incoming: boolean;
+	outgoing: boolean;
 }
 
 export interface GraphState {
@@ -22,4 +178,41 @@ export interface GraphState {
 	edges: GraphEdge[];
 	zoom: number;
 	pan: { x: number; y: number };
+	// Paths of the folders drawn as summary nodes
+	collapsedFolders?: string[];
+}
+
+/**
+ * A named saved layout. Each Supergraph view is bound to one board, which
+ * keeps its own search query, view settings, positions and manual edges.
+ */
+export interface Board {
+	id: string;
+	name: string;
+	query: string;
+	// Match the query case-sensitively
+	matchCase: boolean;
+	viewSettings: ViewSettings | null;
+	graphState: GraphState | null;
+}
+
+/**
+ * Everything the plugin persists in its data file. `version` is bumped
+ * whenever the shape changes; see migrations.ts.
+ */
+export interface PluginData {
+	version: number;
+	settings: SupergraphSettings;
+	boards: Board[];
+	lastBoardId: string;
+}
+
+/**
+ * A vault change forwarded from the plugin to open views.
+ * `oldPath` is only set for renames.
+ */
+export interface FileChange {
+	type: "create" | "modify" | "delete" | "rename";
+	file: TFile;
+	oldPath?: string;
 }
@@ -0,0 +1,32 @@
+import { GraphNode } from "./types";
+
+/**
+ * Unresolved Nodes Module
+ *
+ * "Ghost" nodes for links whose target note doesn't exist yet. Every link
+ * to the same missing note shares one node, keyed by its link path.
+ */
+
+const UNRESOLVED_PREFIX = "unresolved:";
+
+/**
+ * Node id for a missing note. Obsidian resolves links case-insensitively,
+ * so [[Idea]] and [[idea]] share a node.
+ */
+export function unresolvedNodeId(linkpath: string): string {
+	return `${UNRESOLVED_PREFIX}${linkpath.toLowerCase()}`;
+}
+
+export function isUnresolvedNodeId(id: string): boolean {
+	return id.startsWith(UNRESOLVED_PREFIX);
+}
+
+export function buildUnresolvedNode(linkpath: string): GraphNode {
+	return {
+		id: unresolvedNodeId(linkpath),
+		label: linkpath.split("/").pop() || linkpath,
+		snippet: "",
+		kind: "unresolved",
+		linkpath,
+	};
+}